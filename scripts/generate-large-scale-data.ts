@@ -1,6 +1,8 @@
 /**
  * Generate large-scale test data for performance testing
  * Creates 1000 work orders with realistic dependencies and constraints
+ * Pass a work order count to generate a different size, e.g. `npm run generate:large -- 50000`,
+ * and optionally a work center count (default 20), e.g. `npm run generate:large -- 50000 1000`
  */
 
 import * as fs from 'fs';
@@ -9,7 +11,7 @@ import { DateTime } from 'luxon';
 // Configuration
 const NUM_WORK_ORDERS = 1000;
 const NUM_WORK_CENTERS = 20;
-const NUM_MANUFACTURING_ORDERS = 100;
+const WORK_ORDERS_PER_MANUFACTURING_ORDER = 10;
 const DEPENDENCY_PROBABILITY = 0.3; // 30% chance of having a dependency
 const MAX_DEPENDENCIES = 3;
 const MAINTENANCE_WINDOWS_PER_CENTER = 2;
@@ -108,21 +110,25 @@ function generateManufacturingOrders(count: number) {
 function generateWorkOrders(count: number, workCenterIds: string[], moIds: string[]) {
   const workOrders = [];
   const startDate = DateTime.fromISO('2026-02-10T08:00:00.000Z');
+  const lastMaintenanceEnd = new Map<string, DateTime>();
+  // Every 10 orders start 2 hours later with the base plant; more work centers
+  // shorten the step so each work center sees the same arrival rate
+  const batchOffsetMinutes = 120 * NUM_WORK_CENTERS / workCenterIds.length;
 
   for (let i = 1; i <= count; i++) {
     const woId = `wo-${String(i).padStart(4, '0')}`;
     const workCenterId = workCenterIds[i % workCenterIds.length];
-    const moId = moIds[Math.floor(i / (count / moIds.length))];
+    const moId = moIds[Math.min(moIds.length - 1, Math.floor(i / (count / moIds.length)))];
 
     // Random duration between 30 minutes and 8 hours
     const durationMinutes = Math.floor(Math.random() * 450) + 30;
 
     // 2% of work orders are maintenance tasks
-    const isMaintenance = Math.random() < 0.02;
+    let isMaintenance = Math.random() < 0.02;
 
     // Stagger start times
-    const hoursOffset = Math.floor(i / 10) * 2; // Every 10 orders, add 2 hours
-    let woStart = startDate.plus({ hours: hoursOffset });
+    const minutesOffset = Math.round(Math.floor(i / 10) * batchOffsetMinutes);
+    let woStart = startDate.plus({ minutes: minutesOffset });
 
     // Ensure maintenance work orders start within shift hours (8 AM - 5 PM)
     if (isMaintenance) {
@@ -137,6 +143,16 @@ function generateWorkOrders(count: number, workCenterIds: string[], moIds: strin
     // Simple end calculation (will be recalculated by reflow algorithm)
     const woEnd = woStart.plus({ minutes: durationMinutes });
 
+    // Maintenance tasks are fixed, so they must not overlap each other on a work center
+    if (isMaintenance) {
+      const previousEnd = lastMaintenanceEnd.get(workCenterId);
+      if (previousEnd && woStart < previousEnd) {
+        isMaintenance = false;
+      } else {
+        lastMaintenanceEnd.set(workCenterId, woEnd);
+      }
+    }
+
     // Add dependencies (to earlier work orders only)
     // Maintenance tasks cannot have dependencies since they can't be rescheduled
     const dependsOnWorkOrderIds: string[] = [];
@@ -171,26 +187,36 @@ function generateWorkOrders(count: number, workCenterIds: string[], moIds: strin
 }
 
 // Generate the complete dataset
-function generateLargeScaleData() {
-  console.log('Generating large-scale test data...');
-  console.log(`- ${NUM_WORK_ORDERS} work orders`);
-  console.log(`- ${NUM_WORK_CENTERS} work centers`);
-  console.log(`- ${NUM_MANUFACTURING_ORDERS} manufacturing orders`);
-
-  const workCenters = generateWorkCenters(NUM_WORK_CENTERS);
-  const manufacturingOrders = generateManufacturingOrders(NUM_MANUFACTURING_ORDERS);
+export function generateLargeScaleData(
+  numWorkOrders: number = NUM_WORK_ORDERS,
+  numWorkCenters: number = NUM_WORK_CENTERS
+) {
+  const numManufacturingOrders = Math.ceil(numWorkOrders / WORK_ORDERS_PER_MANUFACTURING_ORDER);
+  const workCenters = generateWorkCenters(numWorkCenters);
+  const manufacturingOrders = generateManufacturingOrders(numManufacturingOrders);
   const workCenterIds = workCenters.map(wc => wc.docId);
   const moIds = manufacturingOrders.map(mo => mo.docId);
-  const workOrders = generateWorkOrders(NUM_WORK_ORDERS, workCenterIds, moIds);
+  const workOrders = generateWorkOrders(numWorkOrders, workCenterIds, moIds);
 
-  const data = {
+  return {
     workOrders,
     workCenters,
     manufacturingOrders
   };
+}
+
+function writeLargeScaleData(numWorkOrders: number, numWorkCenters: number) {
+  console.log('Generating large-scale test data...');
+  console.log(`- ${numWorkOrders} work orders`);
+  console.log(`- ${numWorkCenters} work centers`);
+
+  const data = generateLargeScaleData(numWorkOrders, numWorkCenters);
+  const { workOrders, workCenters, manufacturingOrders } = data;
 
   // Save to file
-  const outputPath = './data/scenario-4-large-scale-1000.json';
+  const outputPath = numWorkOrders === NUM_WORK_ORDERS && numWorkCenters === NUM_WORK_CENTERS
+    ? './data/scenario-4-large-scale-1000.json'
+    : `./data/large-scale-${numWorkOrders}-${numWorkCenters}wc.json`;
   fs.writeFileSync(outputPath, JSON.stringify(data, null, 2));
 
   console.log(`\n✅ Generated ${workOrders.length} work orders`);
@@ -202,13 +228,15 @@ function generateLargeScaleData() {
   const totalDependencies = workOrders.reduce((sum, wo) => sum + wo.data.dependsOnWorkOrderIds.length, 0);
 
   console.log('\n📊 Statistics:');
-  console.log(`- Work orders with dependencies: ${withDependencies} (${Math.round(withDependencies/NUM_WORK_ORDERS*100)}%)`);
+  console.log(`- Work orders with dependencies: ${withDependencies} (${Math.round(withDependencies/numWorkOrders*100)}%)`);
   console.log(`- Total dependencies: ${totalDependencies}`);
   console.log(`- Maintenance work orders: ${maintenanceOrders}`);
-  console.log(`- Work centers: ${NUM_WORK_CENTERS}`);
-  console.log(`- Manufacturing orders: ${NUM_MANUFACTURING_ORDERS}`);
-  console.log(`- Total maintenance windows: ${NUM_WORK_CENTERS * MAINTENANCE_WINDOWS_PER_CENTER}`);
+  console.log(`- Work centers: ${workCenters.length}`);
+  console.log(`- Manufacturing orders: ${manufacturingOrders.length}`);
+  console.log(`- Total maintenance windows: ${workCenters.length * MAINTENANCE_WINDOWS_PER_CENTER}`);
 }
 
-// Run the generator
-generateLargeScaleData();
+// Run the generator when invoked directly
+if (require.main === module) {
+  writeLargeScaleData(Number(process.argv[2]) || NUM_WORK_ORDERS, Number(process.argv[3]) || NUM_WORK_CENTERS);
+}
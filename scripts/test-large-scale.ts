@@ -1,14 +1,26 @@
 /**
  * Test the large-scale scenario with 1000 work orders
  * Measures performance and validates the algorithm at scale
+ * Pass a work order count to generate a bigger scenario in memory, e.g. `npm run dev:large -- 50000`,
+ * and optionally a work center count (default 20), e.g. `npm run dev:large -- 50000 1000`
  */
 
 import { ReflowService } from '../src/core/reflow-service';
 import { ReflowInput } from '../src/types/common-types';
-import largeScaleData from '../data/scenario-4-large-scale-1000.json';
+import scenarioData from '../data/scenario-4-large-scale-1000.json';
+import { generateLargeScaleData } from './generate-large-scale-data';
+
+const requestedWorkOrders = Number(process.argv[2]);
+const requestedWorkCenters = Number(process.argv[3]) || undefined;
+const largeScaleData = (requestedWorkOrders
+  ? generateLargeScaleData(requestedWorkOrders, requestedWorkCenters)
+  : scenarioData) as ReflowInput;
 
 console.log('🚀 Large-Scale Performance Test');
-console.log('Testing reflow algorithm with 1000 work orders\n');
+console.log(
+  `Testing reflow algorithm with ${largeScaleData.workOrders.length} work orders` +
+  ` on ${largeScaleData.workCenters.length} work centers\n`
+);
 
 const service = new ReflowService();
 
@@ -28,7 +40,7 @@ console.log('⏱️  Running reflow algorithm...');
 const startTime = Date.now();
 
 try {
-  const result = service.reflow(largeScaleData as ReflowInput);
+  const result = service.reflow(largeScaleData);
   const endTime = Date.now();
   const duration = endTime - startTime;
 
@@ -1,11 +1,42 @@
 /**
  * Constraint Validator - Validates scheduling constraints
- * Checks work center conflicts, shift boundaries, maintenance windows, and dependencies
+ * Checks work center, resource and labor conflicts, changeovers, shift boundaries, maintenance windows,
+ * and dependencies
  */
 
-import { WorkOrder, WorkCenter, ValidationError } from '../types/common-types';
-import { timeRangesOverlap, overlapsWithMaintenance, isWithinShiftHours } from '../utils/date-utils';
+import {
+  WorkOrder,
+  WorkCenter,
+  ValidationError,
+  PlantCalendar,
+  Resource,
+  OperatorPool,
+  ManufacturingOrder
+} from '../types/common-types';
+import { overlapsWithMaintenance, isWithinShiftHours, getWorkingPieces } from '../utils/date-utils';
 import { DependencyResolver } from './dependency-resolver';
+import { applyPlantCalendar, getCalendarOptions, getCapacity } from '../models/work-center';
+import {
+  constrainsFinish,
+  consumesCapacity,
+  getChangeoverMinutesAfter,
+  getDependencies,
+  getDependencyReadyTime,
+  getMinChunkMinutes,
+  getScheduledSetupMinutes
+} from '../models/work-order';
+import { getResourceQuantity } from '../models/resource';
+import { ScheduleIndex } from '../utils/schedule-index';
+
+/**
+ * Index with every work order that still takes capacity placed
+ * Completed orders can be looked up but block nothing
+ */
+function placeActive(workOrders: WorkOrder[]): ScheduleIndex {
+  const scheduleIndex = new ScheduleIndex(workOrders);
+  workOrders.filter(consumesCapacity).forEach(wo => scheduleIndex.place(wo));
+  return scheduleIndex;
+}
 
 export class ConstraintValidator {
   private dependencyResolver: DependencyResolver;
@@ -16,13 +47,24 @@ export class ConstraintValidator {
 
   /**
    * Validate all constraints for a set of work orders
+   * Plant calendars referenced by work centers are applied to shift checks, and
+   * manufacturing orders give the items changeovers are looked up by
+   * A schedule index with every work order placed (completed ones aside) can be
+   * passed in to reuse it
    * Returns array of validation errors (empty if valid)
    */
   validateAll(
     workOrders: WorkOrder[],
-    workCenters: WorkCenter[]
+    workCenters: WorkCenter[],
+    plantCalendars: PlantCalendar[] = [],
+    resources: Resource[] = [],
+    operatorPools: OperatorPool[] = [],
+    manufacturingOrders: ManufacturingOrder[] = [],
+    scheduleIndex: ScheduleIndex = placeActive(workOrders)
   ): ValidationError[] {
     const errors: ValidationError[] = [];
+    const plantCalendarMap = new Map(plantCalendars.map(c => [c.docId, c]));
+    workCenters = workCenters.map(wc => applyPlantCalendar(wc, plantCalendarMap));
 
     // Check for circular dependencies
     const graph = this.dependencyResolver.buildDependencyGraph(workOrders);
@@ -32,10 +74,19 @@ export class ConstraintValidator {
     }
 
     // Check dependency constraints
-    errors.push(...this.validateDependencies(workOrders));
+    errors.push(...this.validateDependencies(workOrders, workCenters, scheduleIndex));
 
     // Check work center conflicts
-    errors.push(...this.validateWorkCenterConflicts(workOrders));
+    errors.push(...this.validateWorkCenterConflicts(workOrders, workCenters, scheduleIndex));
+
+    // Check resource conflicts
+    errors.push(...this.validateResourceConflicts(workOrders, resources, scheduleIndex));
+
+    // Check operator pool headcounts
+    errors.push(...this.validateLaborConflicts(workOrders, operatorPools, scheduleIndex));
+
+    // Check sequence-dependent changeovers
+    errors.push(...this.validateChangeovers(workOrders, workCenters, manufacturingOrders, scheduleIndex));
 
     // Check shift boundaries
     errors.push(...this.validateShiftBoundaries(workOrders, workCenters));
@@ -48,23 +99,37 @@ export class ConstraintValidator {
 
   /**
    * Check if all dependencies are satisfied
-   * (All parent work orders must complete before child starts)
+   * (By default parent work orders must complete, plus any lag, before the child starts;
+   * other dependency types link the parent's start or the child's finish instead)
+   * Working-time lags are counted on the child's work center
    */
-  validateDependencies(workOrders: WorkOrder[]): ValidationError[] {
+  validateDependencies(
+    workOrders: WorkOrder[],
+    workCenters: WorkCenter[] = [],
+    scheduleIndex: ScheduleIndex = new ScheduleIndex(workOrders)
+  ): ValidationError[] {
     const errors: ValidationError[] = [];
-    const workOrderMap = new Map(workOrders.map(wo => [wo.docId, wo]));
+    const workCenterMap = new Map(workCenters.map(wc => [wc.docId, wc]));
 
     workOrders.forEach(wo => {
-      const parents = wo.data.dependsOnWorkOrderIds
-        .map(id => workOrderMap.get(id))
-        .filter((parent): parent is WorkOrder => parent !== undefined);
+      // Completed orders ran when they ran
+      if (!consumesCapacity(wo)) return;
+      const workCenter = workCenterMap.get(wo.data.workCenterId);
 
-      parents.forEach(parent => {
-        // Parent must complete before child starts
-        if (parent.data.endDate > wo.data.startDate) {
+      getDependencies(wo).forEach(dependency => {
+        const parent = scheduleIndex.get(dependency.workOrderId);
+        if (!parent) return;
+
+        // The parent's linked date (and its lag) must come before the child's
+        const finishes = constrainsFinish(dependency);
+        const childDate = finishes ? wo.data.endDate : wo.data.startDate;
+        if (getDependencyReadyTime(parent, dependency, workCenter) > childDate) {
+          const parentEvent =
+            dependency.type === 'START_TO_START' || dependency.type === 'START_TO_FINISH' ? 'starts' : 'completes';
+          const lag = dependency.lagMinutes ? ` plus ${dependency.lagMinutes} minute lag` : '';
           errors.push({
             type: 'DEPENDENCY_VIOLATION',
-            message: `Work order ${wo.data.workOrderNumber} starts before dependency ${parent.data.workOrderNumber} completes`,
+            message: `Work order ${wo.data.workOrderNumber} ${finishes ? 'finishes' : 'starts'} before dependency ${parent.data.workOrderNumber} ${parentEvent}${lag}`,
             workOrderIds: [wo.docId, parent.docId]
           });
         }
@@ -76,41 +141,136 @@ export class ConstraintValidator {
 
   /**
    * Check for work center conflicts
-   * (Only one work order per work center at a time)
+   * (No more work orders at once than the work center's capacity, one by default)
+   * Setup time is part of each order's occupied interval (startDate includes it)
+   * Uses the sorted per-work-center timelines, so only neighbouring orders are compared
    */
-  validateWorkCenterConflicts(workOrders: WorkOrder[]): ValidationError[] {
-    const errors: ValidationError[] = [];
+  validateWorkCenterConflicts(
+    workOrders: WorkOrder[],
+    workCenters: WorkCenter[] = [],
+    scheduleIndex: ScheduleIndex = placeActive(workOrders)
+  ): ValidationError[] {
+    const workCenterMap = new Map(workCenters.map(wc => [wc.docId, wc]));
+    const capacityOf = (workCenterId: string): number => {
+      const workCenter = workCenterMap.get(workCenterId);
+      return workCenter ? getCapacity(workCenter) : 1;
+    };
+
+    return scheduleIndex.findConflicts(capacityOf).map(({ workCenterId, workOrders: overlapping }) => {
+      const numbers = overlapping.map(wo => wo.data.workOrderNumber);
+      return {
+        type: 'WORK_CENTER_CONFLICT',
+        message: overlapping.length === 2
+          ? `Work center ${workCenterId} has overlapping work orders: ${numbers[0]} and ${numbers[1]}`
+          : `Work center ${workCenterId} runs ${overlapping.length} work orders at once (capacity ${capacityOf(workCenterId)}): ${numbers.join(', ')}`,
+        workOrderIds: overlapping.map(wo => wo.docId)
+      };
+    });
+  }
 
-    // Group work orders by work center
-    const workCenterGroups = new Map<string, WorkOrder[]>();
-    workOrders.forEach(wo => {
-      const wcId = wo.data.workCenterId;
-      if (!workCenterGroups.has(wcId)) {
-        workCenterGroups.set(wcId, []);
+  /**
+   * Check for resource conflicts
+   * (No more work orders hold a resource at once than it has units, even across work centers)
+   */
+  validateResourceConflicts(
+    workOrders: WorkOrder[],
+    resources: Resource[] = [],
+    scheduleIndex: ScheduleIndex = placeActive(workOrders)
+  ): ValidationError[] {
+    const resourceMap = new Map(resources.map(r => [r.docId, r]));
+    const quantityOf = (resourceId: string): number => {
+      const resource = resourceMap.get(resourceId);
+      return resource ? getResourceQuantity(resource) : 1;
+    };
+
+    return scheduleIndex.findResourceConflicts(quantityOf).map(({ resourceId, workOrders: holders }) => {
+      const name = resourceMap.get(resourceId)?.data.name ?? resourceId;
+      return {
+        type: 'RESOURCE_CONFLICT',
+        message: `Resource ${name} is held by ${holders.length} work orders at once (available ${quantityOf(resourceId)}): ${holders.map(wo => wo.data.workOrderNumber).join(', ')}`,
+        workOrderIds: holders.map(wo => wo.docId)
+      };
+    });
+  }
+
+  /**
+   * Check for labor conflicts
+   * (Work orders never draw more operators from a pool at once than its headcount,
+   * and operators are assigned for every labor requirement)
+   */
+  validateLaborConflicts(
+    workOrders: WorkOrder[],
+    operatorPools: OperatorPool[] = [],
+    scheduleIndex: ScheduleIndex = placeActive(workOrders)
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const operatorPoolMap = new Map(operatorPools.map(pool => [pool.docId, pool]));
+    const headcountOf = (operatorPoolId: string): number => operatorPoolMap.get(operatorPoolId)?.data.headcount ?? 0;
+
+    workOrders.filter(consumesCapacity).forEach(wo => {
+      const assignments = wo.data.operatorAssignments ?? [];
+      const uncovered = (wo.data.laborRequirements ?? []).find(({ skill, operators }) =>
+        assignments
+          .filter(assignment => assignment.skill === skill)
+          .reduce((sum, assignment) => sum + assignment.operators, 0) < operators
+      );
+      if (uncovered) {
+        errors.push({
+          type: 'LABOR_CONFLICT',
+          message: `Work order ${wo.data.workOrderNumber} has no operators assigned for ${uncovered.skill}`,
+          workOrderIds: [wo.docId]
+        });
       }
-      workCenterGroups.get(wcId)!.push(wo);
     });
 
-    // Check each work center for overlaps
-    workCenterGroups.forEach((orders, workCenterId) => {
-      for (let i = 0; i < orders.length; i++) {
-        for (let j = i + 1; j < orders.length; j++) {
-          const wo1 = orders[i];
-          const wo2 = orders[j];
-
-          if (timeRangesOverlap(
-            wo1.data.startDate,
-            wo1.data.endDate,
-            wo2.data.startDate,
-            wo2.data.endDate
-          )) {
-            errors.push({
-              type: 'WORK_CENTER_CONFLICT',
-              message: `Work center ${workCenterId} has overlapping work orders: ${wo1.data.workOrderNumber} and ${wo2.data.workOrderNumber}`,
-              workOrderIds: [wo1.docId, wo2.docId]
-            });
-          }
-        }
+    scheduleIndex.findOperatorPoolConflicts(headcountOf).forEach(({ operatorPoolId, workOrders: overlapping }) => {
+      const name = operatorPoolMap.get(operatorPoolId)?.data.name ?? operatorPoolId;
+      errors.push({
+        type: 'LABOR_CONFLICT',
+        message: `Operator pool ${name} is short of operators (headcount ${headcountOf(operatorPoolId)}): ${overlapping.map(wo => wo.data.workOrderNumber).join(', ')}`,
+        workOrderIds: overlapping.map(wo => wo.docId)
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Check sequence-dependent changeovers
+   * (An order's slot leaves room ahead of its run for the changeover from the item
+   * of the order running just before it on the work center)
+   */
+  validateChangeovers(
+    workOrders: WorkOrder[],
+    workCenters: WorkCenter[] = [],
+    manufacturingOrders: ManufacturingOrder[] = [],
+    scheduleIndex: ScheduleIndex = placeActive(workOrders)
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const workCenterMap = new Map(workCenters.map(wc => [wc.docId, wc]));
+    const manufacturingOrderMap = new Map(manufacturingOrders.map(mo => [mo.docId, mo]));
+
+    workOrders.forEach(wo => {
+      const workCenter = workCenterMap.get(wo.data.workCenterId);
+      if (!workCenter?.data.changeoverMatrix) return;
+
+      // Maintenance needs no changeover; in-progress and completed orders are past theirs
+      if (wo.data.isMaintenance || !consumesCapacity(wo) || wo.data.status === 'IN_PROGRESS') return;
+
+      const previous = scheduleIndex.findPrevious(
+        wo.data.workCenterId,
+        wo.data.startDate,
+        other => other.docId !== wo.docId && !other.data.isMaintenance
+      );
+      if (!previous) return;
+
+      const changeoverMinutes = getChangeoverMinutesAfter(previous, wo, workCenter, manufacturingOrderMap);
+      if (changeoverMinutes !== undefined && getScheduledSetupMinutes(wo, workCenter) < changeoverMinutes) {
+        errors.push({
+          type: 'CHANGEOVER_VIOLATION',
+          message: `Work order ${wo.data.workOrderNumber} starts after ${previous.data.workOrderNumber} without its ${changeoverMinutes} minute changeover`,
+          workOrderIds: [wo.docId, previous.docId]
+        });
       }
     });
 
@@ -119,7 +279,7 @@ export class ConstraintValidator {
 
   /**
    * Check if work orders respect shift boundaries
-   * (Work should only occur during shift hours)
+   * (Work should only occur during shift hours, and only split where allowed)
    * Note: This is a simplified check - full validation happens during scheduling
    */
   validateShiftBoundaries(
@@ -150,20 +310,47 @@ export class ConstraintValidator {
       }
 
       // Skip shift validation for maintenance work orders
-      // (they are pre-scheduled and cannot be moved)
-      if (wo.data.isMaintenance) {
+      // (they are pre-scheduled and cannot be moved) and for completed ones
+      if (wo.data.isMaintenance || !consumesCapacity(wo)) {
         return;
       }
 
       // Basic check: start date should be within shift hours
       // (Full shift-aware calculation happens in date-utils)
-      if (!isWithinShiftHours(wo.data.startDate, workCenter.data.shifts)) {
+      if (!isWithinShiftHours(
+        wo.data.startDate,
+        workCenter.data.shifts,
+        getCalendarOptions(workCenter)
+      )) {
         errors.push({
           type: 'SHIFT_VIOLATION',
           message: `Work order ${wo.data.workOrderNumber} starts outside shift hours`,
           workOrderIds: [wo.docId]
         });
       }
+
+      // Non-preemptive work must not split, other work not into pieces below its minimum
+      // (in-progress orders are already running, whatever their pieces)
+      const minChunkMinutes = getMinChunkMinutes(wo, workCenter);
+      if (minChunkMinutes !== undefined && wo.data.status !== 'IN_PROGRESS') {
+        const pieces = getWorkingPieces(
+          wo.data.startDate,
+          wo.data.endDate,
+          workCenter.data.shifts,
+          getCalendarOptions(workCenter)
+        );
+        const workMinutes = pieces.reduce((sum, piece) => sum + piece, 0);
+
+        if (pieces.some(piece => piece < Math.min(minChunkMinutes, workMinutes))) {
+          errors.push({
+            type: 'SHIFT_VIOLATION',
+            message: minChunkMinutes >= workMinutes
+              ? `Work order ${wo.data.workOrderNumber} is split across a break in working time`
+              : `Work order ${wo.data.workOrderNumber} is split into pieces shorter than ${minChunkMinutes} minutes`,
+            workOrderIds: [wo.docId]
+          });
+        }
+      }
     });
 
     return errors;
@@ -184,8 +371,8 @@ export class ConstraintValidator {
       if (!workCenter) return;
 
       // Skip maintenance window check for maintenance work orders themselves
-      // (they represent the maintenance activity)
-      if (wo.data.isMaintenance) return;
+      // (they represent the maintenance activity) and for completed ones
+      if (wo.data.isMaintenance || !consumesCapacity(wo)) return;
 
       if (overlapsWithMaintenance(
         wo.data.startDate,
@@ -212,19 +399,23 @@ export class ConstraintValidator {
     startDate: string,
     endDate: string,
     allWorkOrders: WorkOrder[],
-    workCenters: WorkCenter[]
+    workCenters: WorkCenter[],
+    resources: Resource[] = []
   ): boolean {
     const workCenter = workCenters.find(wc => wc.docId === workOrder.data.workCenterId);
     if (!workCenter) return false;
 
-    // Check work center conflicts
-    const otherOrders = allWorkOrders.filter(wo =>
-      wo.docId !== workOrder.docId &&
-      wo.data.workCenterId === workOrder.data.workCenterId
-    );
+    // Check work center conflicts (every unit of the work center busy)
+    const scheduleIndex = placeActive(allWorkOrders.filter(wo => wo.docId !== workOrder.docId));
+    if (scheduleIndex.findPeakLoad(workCenter.docId, startDate, endDate) >= getCapacity(workCenter)) {
+      return false;
+    }
 
-    for (const other of otherOrders) {
-      if (timeRangesOverlap(startDate, endDate, other.data.startDate, other.data.endDate)) {
+    // Check required resources (every unit held elsewhere)
+    for (const resourceId of workOrder.data.requiredResourceIds ?? []) {
+      const resource = resources.find(r => r.docId === resourceId);
+      const quantity = resource ? getResourceQuantity(resource) : 1;
+      if (scheduleIndex.findResourcePeakLoad(resourceId, startDate, endDate) >= quantity) {
         return false;
       }
     }
@@ -234,13 +425,11 @@ export class ConstraintValidator {
       return false;
     }
 
-    // Check dependencies
-    const parents = workOrder.data.dependsOnWorkOrderIds
-      .map(id => allWorkOrders.find(wo => wo.docId === id))
-      .filter((wo): wo is WorkOrder => wo !== undefined);
-
-    for (const parent of parents) {
-      if (parent.data.endDate > startDate) {
+    // Check dependencies (including lags)
+    for (const dependency of getDependencies(workOrder)) {
+      const parent = allWorkOrders.find(wo => wo.docId === dependency.workOrderId);
+      const date = constrainsFinish(dependency) ? endDate : startDate;
+      if (parent && getDependencyReadyTime(parent, dependency, workCenter) > date) {
         return false;
       }
     }
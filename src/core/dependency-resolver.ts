@@ -4,6 +4,9 @@
  */
 
 import { WorkOrder, DependencyNode, ValidationError } from '../types/common-types';
+import { PriorityQueue } from '../utils/priority-queue';
+import { getParentIds } from '../models/work-order';
+import { CircularDependencyError, InvalidInputError } from '../errors/reflow-errors';
 
 export class DependencyResolver {
   /**
@@ -17,7 +20,7 @@ export class DependencyResolver {
     workOrders.forEach(wo => {
       graph.set(wo.docId, {
         workOrderId: wo.docId,
-        parents: [...wo.data.dependsOnWorkOrderIds],
+        parents: getParentIds(wo),
         children: [],
         depth: 0
       });
@@ -25,11 +28,12 @@ export class DependencyResolver {
 
     // Build child relationships and validate dependencies exist
     workOrders.forEach(wo => {
-      wo.data.dependsOnWorkOrderIds.forEach(parentId => {
+      getParentIds(wo).forEach(parentId => {
         const parentNode = graph.get(parentId);
         if (!parentNode) {
-          throw new Error(
-            `Work order ${wo.data.workOrderNumber} depends on non-existent work order: ${parentId}`
+          throw new InvalidInputError(
+            `Work order ${wo.data.workOrderNumber} depends on non-existent work order: ${parentId}`,
+            [wo.docId, parentId]
           );
         }
         parentNode.children.push(wo.docId);
@@ -103,14 +107,20 @@ export class DependencyResolver {
    * Returns work orders in execution order (parents before children)
    *
    * Uses Kahn's algorithm (BFS approach)
+   * When several work orders are ready at once, the optional comparator decides
+   * which goes first; ties (or no comparator) keep the order they became ready in
    */
-  topologicalSort(workOrders: WorkOrder[]): WorkOrder[] {
+  topologicalSort(
+    workOrders: WorkOrder[],
+    compare?: (a: WorkOrder, b: WorkOrder) => number
+  ): WorkOrder[] {
     const graph = this.buildDependencyGraph(workOrders);
+    const workOrderMap = new Map(workOrders.map(wo => [wo.docId, wo]));
 
     // Check for cycles first
     const cycleError = this.detectCycles(graph);
     if (cycleError) {
-      throw new Error(cycleError.message);
+      throw new CircularDependencyError(cycleError.message, cycleError.workOrderIds);
     }
 
     // Calculate in-degree (number of parents) for each node
@@ -120,7 +130,9 @@ export class DependencyResolver {
     });
 
     // Start with nodes that have no dependencies
-    const queue: string[] = [];
+    const queue = new PriorityQueue<string>((a, b) =>
+      compare ? compare(workOrderMap.get(a)!, workOrderMap.get(b)!) : 0
+    );
     inDegree.forEach((degree, id) => {
       if (degree === 0) {
         queue.push(id);
@@ -129,8 +141,8 @@ export class DependencyResolver {
 
     const sorted: string[] = [];
 
-    while (queue.length > 0) {
-      const nodeId = queue.shift()!;
+    while (queue.size > 0) {
+      const nodeId = queue.pop()!;
       sorted.push(nodeId);
 
       const node = graph.get(nodeId)!;
@@ -147,11 +159,12 @@ export class DependencyResolver {
     }
 
     if (sorted.length !== workOrders.length) {
-      throw new Error('Topological sort failed - possible circular dependency');
+      const sortedIds = new Set(sorted);
+      const unsortedIds = workOrders.map(wo => wo.docId).filter(id => !sortedIds.has(id));
+      throw new CircularDependencyError('Topological sort failed - possible circular dependency', unsortedIds);
     }
 
     // Convert sorted IDs back to work orders
-    const workOrderMap = new Map(workOrders.map(wo => [wo.docId, wo]));
     return sorted.map(id => workOrderMap.get(id)!);
   }
 
@@ -194,7 +207,7 @@ export class DependencyResolver {
     const workOrder = workOrders.find(wo => wo.docId === workOrderId);
     if (!workOrder) return [];
 
-    return workOrder.data.dependsOnWorkOrderIds
+    return getParentIds(workOrder)
       .map(parentId => workOrders.find(wo => wo.docId === parentId))
       .filter((wo): wo is WorkOrder => wo !== undefined);
   }
@@ -204,32 +217,50 @@ export class DependencyResolver {
    */
   getChildren(workOrderId: string, workOrders: WorkOrder[]): WorkOrder[] {
     return workOrders.filter(wo =>
-      wo.data.dependsOnWorkOrderIds.includes(workOrderId)
+      getParentIds(wo).includes(workOrderId)
     );
   }
 
   /**
    * Get all descendants (children, grandchildren, etc.)
-   * Returns in topological order
+   * Returns in topological order; parents outside the descendant set are ignored
    */
   getAllDescendants(workOrderId: string, workOrders: WorkOrder[]): WorkOrder[] {
+    const childrenById = new Map<string, string[]>();
+    workOrders.forEach(wo => {
+      getParentIds(wo).forEach(parentId => {
+        const children = childrenById.get(parentId) ?? [];
+        children.push(wo.docId);
+        childrenById.set(parentId, children);
+      });
+    });
+
     const descendants = new Set<string>();
     const queue = [workOrderId];
 
     while (queue.length > 0) {
       const currentId = queue.shift()!;
-      const children = this.getChildren(currentId, workOrders);
 
-      children.forEach(child => {
-        if (!descendants.has(child.docId)) {
-          descendants.add(child.docId);
-          queue.push(child.docId);
+      (childrenById.get(currentId) ?? []).forEach(childId => {
+        if (!descendants.has(childId)) {
+          descendants.add(childId);
+          queue.push(childId);
         }
       });
     }
 
-    // Filter and sort descendants
+    // Sort the descendant subgraph on its own, keeping the original documents
     const descendantOrders = workOrders.filter(wo => descendants.has(wo.docId));
-    return this.topologicalSort(descendantOrders);
+    const workOrderMap = new Map(descendantOrders.map(wo => [wo.docId, wo]));
+    const subgraph = descendantOrders.map(wo => ({
+      ...wo,
+      data: {
+        ...wo.data,
+        dependsOnWorkOrderIds: getParentIds(wo).filter(id => descendants.has(id)),
+        dependencies: undefined
+      }
+    }));
+
+    return this.topologicalSort(subgraph).map(wo => workOrderMap.get(wo.docId)!);
   }
 }
@@ -0,0 +1,182 @@
+/**
+ * Disruption Handler - Applies disruption events to the current schedule
+ * Produces the reflow input for the disrupted schedule and records which
+ * work orders each event touches directly, so changes can be traced back
+ */
+
+import { DateTime } from 'luxon';
+import {
+  ReflowInput,
+  DisruptionEvent,
+  WorkOrder,
+  WorkCenter
+} from '../types/common-types';
+import { cloneWorkOrder, getParentIds } from '../models/work-order';
+import { cloneWorkCenter } from '../models/work-center';
+import { timeRangesOverlap } from '../utils/date-utils';
+import { InvalidInputError, UnknownWorkCenterError } from '../errors/reflow-errors';
+
+export interface DisruptionImpact {
+  input: ReflowInput;
+  // Event ids per work order directly touched by an event
+  eventIdsByWorkOrder: Map<string, string[]>;
+  // Work orders whose processing time changed, so their end date must be recalculated
+  resizedWorkOrderIds: Set<string>;
+  // Work orders added by rush order events
+  addedWorkOrderIds: Set<string>;
+}
+
+export class DisruptionHandler {
+  /**
+   * Apply disruption events in order to a copy of the reflow input
+   */
+  apply(input: ReflowInput, events: DisruptionEvent[]): DisruptionImpact {
+    let workOrders = input.workOrders.map(cloneWorkOrder);
+    const workCenters = input.workCenters.map(cloneWorkCenter);
+    const manufacturingOrders = [...input.manufacturingOrders];
+    const eventIdsByWorkOrder = new Map<string, string[]>();
+    const resizedWorkOrderIds = new Set<string>();
+    const addedWorkOrderIds = new Set<string>();
+
+    const touch = (workOrderId: string, eventId: string): void => {
+      const eventIds = eventIdsByWorkOrder.get(workOrderId) ?? [];
+      if (!eventIds.includes(eventId)) {
+        eventIds.push(eventId);
+      }
+      eventIdsByWorkOrder.set(workOrderId, eventIds);
+    };
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'WORK_ORDER_DELAYED': {
+          // The order needs extra working time to finish
+          const workOrder = this.getWorkOrder(workOrders, event.workOrderId, event.eventId);
+          workOrder.data.durationMinutes += event.delayMinutes;
+          if (workOrder.data.remainingMinutes !== undefined) {
+            workOrder.data.remainingMinutes += event.delayMinutes;
+          }
+          resizedWorkOrderIds.add(workOrder.docId);
+          touch(workOrder.docId, event.eventId);
+          break;
+        }
+
+        case 'DURATION_CHANGED': {
+          const workOrder = this.getWorkOrder(workOrders, event.workOrderId, event.eventId);
+          workOrder.data.durationMinutes = event.durationMinutes;
+          resizedWorkOrderIds.add(workOrder.docId);
+          touch(workOrder.docId, event.eventId);
+          break;
+        }
+
+        case 'WORK_CENTER_BREAKDOWN': {
+          // Repair time runs on the clock, not on shift time
+          const workCenter = this.getWorkCenter(workCenters, event.workCenterId, event.eventId);
+          const startDate = DateTime.fromISO(event.startDate, { zone: 'utc' });
+          const endDate = startDate.plus({ minutes: event.estimatedRepairMinutes });
+          const window = {
+            startDate: startDate.toISO()!,
+            endDate: endDate.toISO()!,
+            reason: event.reason ?? 'Unplanned breakdown'
+          };
+          workCenter.data.maintenanceWindows.push(window);
+
+          workOrders
+            .filter(wo =>
+              !wo.data.isMaintenance &&
+              wo.data.workCenterId === workCenter.docId &&
+              timeRangesOverlap(wo.data.startDate, wo.data.endDate, window.startDate, window.endDate)
+            )
+            .forEach(wo => touch(wo.docId, event.eventId));
+          break;
+        }
+
+        case 'RUSH_ORDER_ADDED': {
+          const manufacturingOrder = event.manufacturingOrder;
+          if (manufacturingOrder) {
+            if (manufacturingOrders.some(mo => mo.docId === manufacturingOrder.docId)) {
+              throw new InvalidInputError(
+                `Disruption event ${event.eventId} adds duplicate manufacturing order: ${manufacturingOrder.docId}`,
+                [manufacturingOrder.docId]
+              );
+            }
+            manufacturingOrders.push(manufacturingOrder);
+          }
+
+          event.workOrders.forEach(rushOrder => {
+            if (workOrders.some(wo => wo.docId === rushOrder.docId)) {
+              throw new InvalidInputError(
+                `Disruption event ${event.eventId} adds duplicate work order: ${rushOrder.docId}`,
+                [rushOrder.docId]
+              );
+            }
+            this.getWorkCenter(workCenters, rushOrder.data.workCenterId, event.eventId);
+
+            const workOrder = cloneWorkOrder(rushOrder);
+            workOrder.data.priority = workOrder.data.priority ?? manufacturingOrder?.data.priority ?? 1;
+            workOrders.push(workOrder);
+            addedWorkOrderIds.add(workOrder.docId);
+            touch(workOrder.docId, event.eventId);
+          });
+          break;
+        }
+
+        case 'WORK_ORDER_CANCELLED': {
+          const cancelled = this.getWorkOrder(workOrders, event.workOrderId, event.eventId);
+          workOrders = workOrders.filter(wo => wo.docId !== cancelled.docId);
+          eventIdsByWorkOrder.delete(cancelled.docId);
+          resizedWorkOrderIds.delete(cancelled.docId);
+          addedWorkOrderIds.delete(cancelled.docId);
+
+          // Dependents no longer wait for it, and later orders on its work center gain capacity
+          workOrders.forEach(wo => {
+            if (getParentIds(wo).includes(cancelled.docId)) {
+              wo.data.dependsOnWorkOrderIds = wo.data.dependsOnWorkOrderIds.filter(
+                id => id !== cancelled.docId
+              );
+              wo.data.dependencies = wo.data.dependencies?.filter(
+                dependency => dependency.workOrderId !== cancelled.docId
+              );
+              touch(wo.docId, event.eventId);
+            } else if (
+              !wo.data.isMaintenance &&
+              wo.data.workCenterId === cancelled.data.workCenterId &&
+              wo.data.startDate >= cancelled.data.startDate
+            ) {
+              touch(wo.docId, event.eventId);
+            }
+          });
+          break;
+        }
+      }
+    }
+
+    return {
+      input: { ...input, workOrders, workCenters, manufacturingOrders },
+      eventIdsByWorkOrder,
+      resizedWorkOrderIds,
+      addedWorkOrderIds
+    };
+  }
+
+  private getWorkOrder(workOrders: WorkOrder[], workOrderId: string, eventId: string): WorkOrder {
+    const workOrder = workOrders.find(wo => wo.docId === workOrderId);
+    if (!workOrder) {
+      throw new InvalidInputError(
+        `Disruption event ${eventId} references non-existent work order: ${workOrderId}`,
+        [workOrderId]
+      );
+    }
+    return workOrder;
+  }
+
+  private getWorkCenter(workCenters: WorkCenter[], workCenterId: string, eventId: string): WorkCenter {
+    const workCenter = workCenters.find(wc => wc.docId === workCenterId);
+    if (!workCenter) {
+      throw new UnknownWorkCenterError(
+        `Disruption event ${eventId} references non-existent work center: ${workCenterId}`,
+        [workCenterId]
+      );
+    }
+    return workCenter;
+  }
+}
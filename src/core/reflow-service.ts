@@ -10,157 +10,1000 @@ import {
   WorkOrder,
   WorkCenter,
   WorkOrderChange,
-  OptimizationMetrics
+  ManufacturingOrder,
+  ManufacturingOrderLateness,
+  OptimizationMetrics,
+  ReflowOptions,
+  ScheduleWarning,
+  SequencingRule,
+  DisruptionEvent,
+  WorkOrderDependency,
+  Resource,
+  OperatorPool,
+  OperatorAssignment,
+  UnscheduledWorkOrder,
+  ValidationError
 } from '../types/common-types';
 import { DependencyResolver } from './dependency-resolver';
 import { ConstraintValidator } from './constraint-validator';
+import { DisruptionHandler, DisruptionImpact } from './disruption-handler';
+import { ScheduleIndex } from '../utils/schedule-index';
+import {
+  CircularDependencyError,
+  InvalidInputError,
+  InvalidScheduleError,
+  IterationLimitError,
+  ReflowError,
+  ShiftConfigurationError,
+  UnknownWorkCenterError
+} from '../errors/reflow-errors';
+import {
+  constrainsFinish,
+  consumesCapacity,
+  getDependencies,
+  getChangeoverMinutesAfter,
+  getDependencyReadyTime,
+  getEligibleWorkCenters,
+  getMinChunkMinutes,
+  getParentIds,
+  getProcessingMinutes,
+  getRemainingMinutes,
+  getScheduledSetupMinutes,
+  isPinned,
+  moveToWorkCenter
+} from '../models/work-order';
+import { applyPlantCalendar, getCalendarOptions, getCapacity } from '../models/work-center';
+import { getResourceQuantity } from '../models/resource';
+import { getMaterialAvailability } from '../models/manufacturing-order';
+import { findUncoveredTime, getOperatorPoolCalendarOptions, matchLaborRequirements } from '../models/operator-pool';
 import {
   calculateEndDateWithShifts,
   calculateDelayMinutes,
   findNextShiftStart,
+  findLongestWorkingBlock,
+  findNextWorkingTime,
+  findStartForMinChunk,
+  getShiftWorkingMinutes,
   overlapsWithMaintenance,
   timeRangesOverlap
 } from '../utils/date-utils';
 
+/**
+ * A work order scheduled on one of its eligible work centers
+ */
+interface Placement {
+  workOrder: WorkOrder;
+  workCenter: WorkCenter;
+  startDate: string;
+  setupMinutes: number;
+  endDate: string;
+}
+
+/**
+ * Lookups shared by the placement helpers, built once per reflow
+ */
+interface ReflowContext {
+  workCenterMap: Map<string, WorkCenter>;
+  manufacturingOrderMap: Map<string, ManufacturingOrder>;
+  resourceMap: Map<string, Resource>;
+  operatorPools: OperatorPool[];
+  materialReadyDates: Map<string, string>;
+  compactFrom?: string;  // Compaction floor movable orders search from
+  now?: string;          // Nothing is placed before it
+}
+
+/**
+ * Work orders with their dependencies on orders outside a set dropped (copies only
+ * where something is dropped), so dependency graphs can be built over just that set
+ */
+function withoutDependenciesOutside(workOrders: WorkOrder[], workOrderIds: Set<string>): WorkOrder[] {
+  return workOrders.map(wo =>
+    getParentIds(wo).every(id => workOrderIds.has(id))
+      ? wo
+      : {
+        ...wo,
+        data: {
+          ...wo.data,
+          dependsOnWorkOrderIds: wo.data.dependsOnWorkOrderIds.filter(id => workOrderIds.has(id)),
+          dependencies: wo.data.dependencies?.filter(dependency => workOrderIds.has(dependency.workOrderId))
+        }
+      }
+  );
+}
+
 export class ReflowService {
   private dependencyResolver: DependencyResolver;
   private constraintValidator: ConstraintValidator;
+  private disruptionHandler: DisruptionHandler;
 
   constructor() {
     this.dependencyResolver = new DependencyResolver();
     this.constraintValidator = new ConstraintValidator();
+    this.disruptionHandler = new DisruptionHandler();
   }
 
   /**
    * Main reflow algorithm
    * Reschedules work orders to produce a valid schedule
    */
-  reflow(input: ReflowInput): ReflowResult {
-    const { workOrders, workCenters, manufacturingOrders } = input;
+  reflow(input: ReflowInput, options: ReflowOptions = {}): ReflowResult {
+    return this.runReflow(input, options, {
+      eventIdsByWorkOrder: new Map(),
+      resizedWorkOrderIds: new Set(),
+      addedWorkOrderIds: new Set()
+    });
+  }
+
+  /**
+   * Apply disruption events to the current schedule and reflow it
+   * Each change lists the events it traces back to in causedByEventIds
+   */
+  reflowWithDisruptions(
+    input: ReflowInput,
+    events: DisruptionEvent[],
+    options: ReflowOptions = {}
+  ): ReflowResult {
+    const { input: disruptedInput, ...impact } = this.disruptionHandler.apply(input, events);
+
+    // Compaction floor comes from the schedule before cancellations removed its first orders
+    const compactFrom = options.compact
+      ? options.compactFrom ?? this.findEarliestStartDate(input.workOrders)
+      : undefined;
+
+    return this.runReflow(disruptedInput, { ...options, compactFrom }, impact);
+  }
+
+  /**
+   * Reflow with disruption impact: resized orders get their end date recalculated,
+   * and event ids spread from touched orders to the orders they push.
+   * Only orders that moved (or were added) pass their events on.
+   */
+  private runReflow(
+    input: ReflowInput,
+    options: ReflowOptions,
+    impact: Omit<DisruptionImpact, 'input'>
+  ): ReflowResult {
+    const { workOrders, manufacturingOrders, resources = [], operatorPools = [] } = input;
+    // Compaction keeps the planned sequence among orders the rules cannot tell apart
+    const rules = options.sequencingRules ?? ['PRIORITY'];
+    const sequencingRules: SequencingRule[] = options.compact && !rules.includes('ORIGINAL_START')
+      ? [...rules, 'ORIGINAL_START']
+      : rules;
 
     // Create working copies
     const updatedWorkOrders = workOrders.map(wo => ({ ...wo, data: { ...wo.data } }));
+
+    // Work orders that can never be placed fail the reflow, unless diagnostic mode
+    // leaves them (and everything waiting on them) unscheduled at their input dates
+    const unscheduled = new Map<string, UnscheduledWorkOrder>();
+    const unschedule = (workOrder: WorkOrder, error: ReflowError): void => {
+      if (!options.diagnose) {
+        throw error;
+      }
+      unscheduled.set(workOrder.docId, {
+        workOrderId: workOrder.docId,
+        workOrderNumber: workOrder.data.workOrderNumber,
+        reason: error.message
+      });
+    };
+
+    // Work centers whose plant calendar is missing take no work
+    const plantCalendarMap = new Map((input.plantCalendars ?? []).map(c => [c.docId, c]));
+    const workCenters = input.workCenters.flatMap(wc => {
+      try {
+        return [applyPlantCalendar(wc, plantCalendarMap)];
+      } catch (error) {
+        if (!(error instanceof ReflowError)) throw error;
+        updatedWorkOrders
+          .filter(wo => wo.data.workCenterId === wc.docId)
+          .forEach(wo => unschedule(wo, error));
+        return [];
+      }
+    });
     const changes: WorkOrderChange[] = [];
-    const workCenterMap = new Map(workCenters.map(wc => [wc.docId, wc]));
+    const warnings: ScheduleWarning[] = [];
+    const manufacturingOrderMap = new Map(manufacturingOrders.map(mo => [mo.docId, mo]));
+    const { readyDates: materialReadyDates, shortItemIds } = getMaterialAvailability(
+      manufacturingOrders,
+      input.materialArrivals ?? []
+    );
+    const setupMinutesByWorkOrder = new Map<string, number>();
+    const tracedEventIds = new Map(
+      [...impact.addedWorkOrderIds].map(id => [id, impact.eventIdsByWorkOrder.get(id) ?? []])
+    );
+
+    const { now } = options;
+    const context: ReflowContext = {
+      workCenterMap: new Map(workCenters.map(wc => [wc.docId, wc])),
+      manufacturingOrderMap,
+      resourceMap: new Map(resources.map(r => [r.docId, r])),
+      operatorPools,
+      materialReadyDates,
+      // In compaction mode every movable order searches from this floor instead of its current start
+      compactFrom: options.compact
+        ? options.compactFrom ?? this.findEarliestStartDate(workOrders)
+        : undefined,
+      now
+    };
+
+    // Planned orders starting inside the frozen horizon keep their slot unless forced out
+    const frozenUntil = now && options.frozenHorizonMinutes
+      ? DateTime.fromISO(now, { zone: 'utc' }).plus({ minutes: options.frozenHorizonMinutes }).toISO()!
+      : undefined;
+    const isFrozen = (wo: WorkOrder): boolean =>
+      frozenUntil !== undefined && !isPinned(wo) && wo.data.startDate >= now! && wo.data.startDate < frozenUntil;
 
     // Step 1: Sort work orders by dependencies (topological sort)
-    const sortedWorkOrders = this.dependencyResolver.topologicalSort(updatedWorkOrders);
+    // Among ready work orders, frozen ones claim their slots first; after them the
+    // sequencing rules decide who claims contested slots
+    const compareSequence = this.createSequencingComparator(sequencingRules, manufacturingOrderMap);
+    const compare = (a: WorkOrder, b: WorkOrder): number =>
+      Number(isFrozen(b)) - Number(isFrozen(a)) || compareSequence(a, b);
+    const dependencyErrors: ValidationError[] = [];
+    const sortedWorkOrders = options.diagnose
+      ? this.sortSchedulable(updatedWorkOrders, compare, unscheduled, unschedule, dependencyErrors)
+      : this.dependencyResolver.topologicalSort(updatedWorkOrders, compare);
+
+    // Incremental mode only reschedules the affected subgraph; the rest stays fixed
+    const affectedWorkOrderIds = options.changedWorkOrderIds && !options.compact
+      ? this.findAffectedWorkOrderIds(options.changedWorkOrderIds, updatedWorkOrders, operatorPools)
+      : undefined;
+    const isFixed = (wo: WorkOrder): boolean =>
+      isPinned(wo) || (affectedWorkOrderIds !== undefined && !affectedWorkOrderIds.has(wo.docId));
+
+    const placementBlockers = this.findPlacementBlockers(workOrders, shortItemIds, context);
+    updatedWorkOrders
+      .filter(wo => !isFixed(wo))
+      .forEach(wo => {
+        const blocker = placementBlockers.get(wo.docId);
+        if (blocker) {
+          unschedule(wo, blocker);
+        }
+      });
+
+    // Fixed orders keep their slot, but only on a work center that exists
+    updatedWorkOrders
+      .filter(wo => isFixed(wo) && consumesCapacity(wo) && !unscheduled.has(wo.docId))
+      .forEach(wo => {
+        try {
+          this.getWorkCenter(wo, context.workCenterMap);
+        } catch (error) {
+          if (!(error instanceof ReflowError)) throw error;
+          unschedule(wo, error);
+        }
+      });
+
+    // In-progress work orders keep their actual start; only the remaining run is rescheduled.
+    // Other pinned orders a disruption resized keep their start as well.
+    updatedWorkOrders
+      .filter(wo =>
+        isPinned(wo) &&
+        consumesCapacity(wo) &&
+        (wo.data.status === 'IN_PROGRESS' || impact.resizedWorkOrderIds.has(wo.docId))
+      )
+      .forEach(workOrder => {
+        let change: WorkOrderChange | undefined;
+        try {
+          change = workOrder.data.status === 'IN_PROGRESS'
+            ? this.rescheduleRemainingWork(workOrder, context)
+            : this.rescheduleResizedWork(workOrder, context);
+        } catch (error) {
+          if (!(error instanceof ReflowError)) throw error;
+          unschedule(workOrder, error);
+        }
+        if (change) {
+          const eventIds = impact.eventIdsByWorkOrder.get(workOrder.docId) ?? [];
+          if (eventIds.length > 0) {
+            tracedEventIds.set(workOrder.docId, eventIds);
+            change.causedByEventIds = eventIds;
+          }
+          changes.push(change);
+        }
+      });
+
+    // Work orders already placed on the schedule - only these block later slots.
+    // Maintenance, firmed and in-progress (and, in incremental mode, unaffected) work
+    // orders are fixed, so they block from the start. Completed ones never block.
+    // Fixed orders needing labor without operators draw them here, so they hold them
+    // too; labor they cannot get is left for validation to report
+    const scheduleIndex = new ScheduleIndex(updatedWorkOrders);
+    updatedWorkOrders
+      .filter(wo => isFixed(wo) && consumesCapacity(wo) && !unscheduled.has(wo.docId))
+      .forEach(wo => {
+        const workCenter = context.workCenterMap.get(wo.data.workCenterId);
+        if (wo.data.laborRequirements && !wo.data.operatorAssignments && workCenter) {
+          wo.data.operatorAssignments = this.assignOperators(
+            wo,
+            wo.data.startDate,
+            wo.data.endDate,
+            scheduleIndex,
+            workCenter,
+            context
+          );
+        }
+        scheduleIndex.place(wo);
+      });
 
     // Step 2: Process each work order in dependency order
     for (const workOrder of sortedWorkOrders) {
-      // Skip maintenance work orders (cannot be rescheduled)
-      if (workOrder.data.isMaintenance) {
+      // Skip pinned work orders (cannot be rescheduled) and unaffected ones
+      if (isFixed(workOrder) || unscheduled.has(workOrder.docId)) {
+        continue;
+      }
+
+      const unscheduledParent = getParentIds(workOrder)
+        .map(id => unscheduled.get(id))
+        .find(parent => parent !== undefined);
+      if (unscheduledParent) {
+        unschedule(workOrder, new InvalidInputError(
+          `Depends on unscheduled work order ${unscheduledParent.workOrderNumber}`,
+          [workOrder.docId, unscheduledParent.workOrderId]
+        ));
         continue;
       }
 
       const originalStartDate = workOrder.data.startDate;
       const originalEndDate = workOrder.data.endDate;
+      const originalWorkCenterId = workOrder.data.workCenterId;
+      const frozen = isFrozen(workOrder);
 
-      // Calculate earliest valid start time
-      const earliestStart = this.calculateEarliestStartTime(
-        workOrder,
-        updatedWorkOrders,
-        workCenterMap
-      );
+      // Calculate earliest valid start time on the work center that finishes first
+      // Frozen orders stay on their work center and are not pulled earlier
+      let placement: Placement;
+      try {
+        placement = this.findBestPlacement(
+          frozen ? { ...workOrder, data: { ...workOrder.data, alternateWorkCenters: undefined } } : workOrder,
+          scheduleIndex,
+          frozen ? { ...context, compactFrom: undefined } : context
+        );
+      } catch (error) {
+        if (!(error instanceof ReflowError)) throw error;
+        unschedule(workOrder, error);
+        continue;
+      }
+      const { workCenter, startDate: earliestStart, setupMinutes } = placement;
+      const moved = workCenter.docId !== originalWorkCenterId;
+      if (moved) {
+        workOrder.data = placement.workOrder.data;
+      }
+      setupMinutesByWorkOrder.set(workOrder.docId, setupMinutes);
 
-      // If start time needs to change, reschedule
-      if (earliestStart !== workOrder.data.startDate) {
-        const workCenter = workCenterMap.get(workOrder.data.workCenterId)!;
+      // If start time needs to change, reschedule. Orders with setup time are always
+      // recalculated so the setup consumes shift capacity ahead of the run, and so
+      // are orders whose duration a disruption changed or that moved work center.
+      const needsReschedule =
+        earliestStart !== originalStartDate ||
+        setupMinutes > 0 ||
+        moved ||
+        impact.resizedWorkOrderIds.has(workOrder.docId);
 
-        // Calculate new end date with shift-aware logic
-        const newEndDate = calculateEndDateWithShifts(
+      // New end date with shift-aware logic (setup + run)
+      const newEndDate = needsReschedule ? placement.endDate : originalEndDate;
+
+      // Update work order and place it on its work center's timeline
+      workOrder.data.startDate = earliestStart;
+      workOrder.data.endDate = newEndDate;
+      if (workOrder.data.laborRequirements) {
+        workOrder.data.operatorAssignments = this.assignOperators(
+          workOrder,
           earliestStart,
-          workOrder.data.durationMinutes,
-          workCenter.data.shifts
+          newEndDate,
+          scheduleIndex,
+          workCenter,
+          context
         );
+      }
+      scheduleIndex.place(workOrder);
 
-        // Update work order
-        workOrder.data.startDate = earliestStart;
-        workOrder.data.endDate = newEndDate;
+      if (earliestStart === originalStartDate && newEndDate === originalEndDate && !moved) {
+        continue;
+      }
+
+      if (frozen && earliestStart !== originalStartDate) {
+        warnings.push({
+          type: 'TIME_FENCE_VIOLATION',
+          message: `Work order ${workOrder.data.workOrderNumber} inside the frozen horizon had to move from ${originalStartDate} to ${earliestStart}`,
+          workOrderIds: [workOrder.docId]
+        });
+      }
 
-        // Record change
-        const delay = calculateDelayMinutes(originalEndDate, newEndDate);
-        changes.push({
-          workOrderId: workOrder.docId,
-          workOrderNumber: workOrder.data.workOrderNumber,
+      // Record change
+      const delay = calculateDelayMinutes(originalEndDate, newEndDate);
+      const change: WorkOrderChange = {
+        workOrderId: workOrder.docId,
+        workOrderNumber: workOrder.data.workOrderNumber,
+        originalStartDate,
+        originalEndDate,
+        newStartDate: earliestStart,
+        newEndDate,
+        delayMinutes: delay,
+        reason: this.generateChangeReason(
+          workOrder,
           originalStartDate,
           originalEndDate,
-          newStartDate: earliestStart,
-          newEndDate,
-          delayMinutes: delay,
-          reason: this.generateChangeReason(workOrder, updatedWorkOrders, workCenterMap)
-        });
+          originalWorkCenterId,
+          scheduleIndex,
+          workCenter,
+          setupMinutes,
+          context
+        )
+      };
+
+      const eventIds = this.traceEventIds(
+        workOrder,
+        originalStartDate,
+        originalEndDate,
+        originalWorkCenterId,
+        scheduleIndex,
+        impact.eventIdsByWorkOrder.get(workOrder.docId) ?? [],
+        tracedEventIds
+      );
+      if (eventIds.length > 0) {
+        tracedEventIds.set(workOrder.docId, eventIds);
+        change.causedByEventIds = eventIds;
+      }
+
+      if (moved) {
+        change.originalWorkCenterId = originalWorkCenterId;
+        change.newWorkCenterId = workCenter.docId;
+      }
+
+      if (setupMinutes > 0) {
+        change.setupMinutes = setupMinutes;
+        change.setupStartDate = earliestStart;
+        change.setupEndDate = calculateEndDateWithShifts(
+          earliestStart,
+          setupMinutes,
+          workCenter.data.shifts,
+          getCalendarOptions(workCenter)
+        );
       }
+
+      changes.push(change);
     }
 
-    // Step 3: Final validation
-    const errors = this.constraintValidator.validateAll(updatedWorkOrders, workCenters);
-    if (errors.length > 0) {
-      throw new Error(
-        `Reflow produced invalid schedule:\n${errors.map(e => `- ${e.message}`).join('\n')}`
-      );
+    // Pinned work orders can still sit in the past; report those that have not started
+    if (now) {
+      updatedWorkOrders
+        .filter(wo =>
+          !wo.data.isMaintenance &&
+          (wo.data.status ?? 'PLANNED') !== 'IN_PROGRESS' &&
+          consumesCapacity(wo) &&
+          wo.data.startDate < now
+        )
+        .forEach(wo => warnings.push({
+          type: 'SCHEDULED_IN_PAST',
+          message: `Work order ${wo.data.workOrderNumber} is scheduled to start at ${wo.data.startDate}, before now (${now})`,
+          workOrderIds: [wo.docId]
+        }));
     }
 
-    // Step 4: Calculate metrics
-    const metrics = this.calculateMetrics(changes, updatedWorkOrders, workCenters);
+    // Step 3: Final validation (of the scheduled work orders, in diagnostic mode)
+    const scheduledWorkOrders = updatedWorkOrders.filter(wo => !unscheduled.has(wo.docId));
+    const errors = this.constraintValidator.validateAll(
+      withoutDependenciesOutside(scheduledWorkOrders, new Set(scheduledWorkOrders.map(wo => wo.docId))),
+      workCenters,
+      [],
+      resources,
+      operatorPools,
+      manufacturingOrders,
+      scheduleIndex
+    );
+    if (errors.length > 0 && !options.diagnose) {
+      throw new InvalidScheduleError(errors);
+    }
 
-    return {
+    // Step 4: Project manufacturing order completion against due dates
+    const manufacturingOrderLateness = this.calculateManufacturingOrderLateness(
+      manufacturingOrders,
+      updatedWorkOrders
+    );
+
+    // Step 5: Calculate metrics
+    const metrics = this.calculateMetrics(
+      changes,
+      updatedWorkOrders,
+      workCenters,
+      setupMinutesByWorkOrder,
+      manufacturingOrderLateness
+    );
+
+    const result: ReflowResult = {
       updatedWorkOrders,
       changes,
-      explanation: this.generateExplanation(changes),
-      metrics
+      explanation: this.generateExplanation(changes, manufacturingOrderLateness),
+      metrics,
+      manufacturingOrderLateness,
+      warnings
+    };
+    if (options.diagnose) {
+      result.diagnostics = {
+        unscheduledWorkOrders: [...unscheduled.values()],
+        validationErrors: [...dependencyErrors, ...errors]
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Topological sort for diagnostic mode: work orders depending on missing work
+   * orders or caught in a dependency cycle are unscheduled and left out (their
+   * dependents follow them when placed), and each cycle is reported as an error
+   * Orders already unscheduled are left out as well
+   */
+  private sortSchedulable(
+    workOrders: WorkOrder[],
+    compare: (a: WorkOrder, b: WorkOrder) => number,
+    unscheduled: Map<string, UnscheduledWorkOrder>,
+    unschedule: (workOrder: WorkOrder, error: ReflowError) => void,
+    dependencyErrors: ValidationError[]
+  ): WorkOrder[] {
+    const workOrderMap = new Map(workOrders.map(wo => [wo.docId, wo]));
+    workOrders.forEach(wo => {
+      const missingParentId = getParentIds(wo).find(id => !workOrderMap.has(id));
+      if (missingParentId && !unscheduled.has(wo.docId)) {
+        unschedule(wo, new InvalidInputError(
+          `Work order ${wo.data.workOrderNumber} depends on non-existent work order: ${missingParentId}`,
+          [wo.docId, missingParentId]
+        ));
+      }
+    });
+
+    for (;;) {
+      const schedulable = workOrders.filter(wo => !unscheduled.has(wo.docId));
+      const graphOrders = withoutDependenciesOutside(schedulable, new Set(schedulable.map(wo => wo.docId)));
+      const cycleError = this.dependencyResolver.detectCycles(
+        this.dependencyResolver.buildDependencyGraph(graphOrders)
+      );
+      if (!cycleError) {
+        return this.dependencyResolver.topologicalSort(graphOrders, compare).map(wo => workOrderMap.get(wo.docId)!);
+      }
+
+      dependencyErrors.push(cycleError);
+      const error = new CircularDependencyError(cycleError.message, cycleError.workOrderIds);
+      cycleError.workOrderIds.forEach(id => unschedule(workOrderMap.get(id)!, error));
+    }
+  }
+
+  /**
+   * Work orders an incremental reflow has to reschedule: the changed orders, their
+   * descendants, and every order still running at or after an affected one's start
+   * on a work center, resource or operator pool both can use - repeated until nothing
+   * new is pulled in
+   */
+  private findAffectedWorkOrderIds(
+    changedWorkOrderIds: string[],
+    workOrders: WorkOrder[],
+    operatorPools: OperatorPool[]
+  ): Set<string> {
+    const workOrderMap = new Map(workOrders.map(wo => [wo.docId, wo]));
+    const childrenById = new Map<string, string[]>();
+    workOrders.forEach(wo =>
+      getParentIds(wo).forEach(parentId => {
+        const children = childrenById.get(parentId) ?? [];
+        children.push(wo.docId);
+        childrenById.set(parentId, children);
+      })
+    );
+
+    // Timelines an order can take a slot on: its eligible work centers, its required
+    // resources and the operator pools with a skill it needs
+    const timelinesOf = (wo: WorkOrder): string[] => {
+      const skills = (wo.data.laborRequirements ?? []).map(requirement => requirement.skill);
+      return [
+        ...getEligibleWorkCenters(wo).map(({ workCenterId }) => `workCenter:${workCenterId}`),
+        ...(wo.data.requiredResourceIds ?? []).map(resourceId => `resource:${resourceId}`),
+        ...operatorPools
+          .filter(pool => pool.data.skills.some(skill => skills.includes(skill)))
+          .map(pool => `operatorPool:${pool.docId}`)
+      ];
+    };
+    const ordersByTimeline = new Map<string, WorkOrder[]>();
+    workOrders
+      .filter(wo => !isPinned(wo))
+      .forEach(wo =>
+        timelinesOf(wo).forEach(timeline => {
+          const orders = ordersByTimeline.get(timeline) ?? [];
+          orders.push(wo);
+          ordersByTimeline.set(timeline, orders);
+        })
+      );
+
+    const affected = new Set<string>();
+    // Orders whose children are queued already - descendants are walked through pinned orders too
+    const expanded = new Set<string>();
+    // Earliest start already swept per timeline - everything ending after it is affected
+    const sweptFrom = new Map<string, string>();
+    const queue = [...changedWorkOrderIds];
+
+    while (queue.length > 0) {
+      const workOrderId = queue.pop()!;
+      const workOrder = workOrderMap.get(workOrderId);
+      if (!workOrder) {
+        throw new InvalidInputError(`Changed work order not found: ${workOrderId}`, [workOrderId]);
+      }
+      if (!expanded.has(workOrderId)) {
+        expanded.add(workOrderId);
+        queue.push(...(childrenById.get(workOrderId) ?? []));
+      }
+      if (isPinned(workOrder)) {
+        continue;
+      }
+      affected.add(workOrderId);
+
+      const { startDate } = workOrder.data;
+      timelinesOf(workOrder).forEach(timeline => {
+        const swept = sweptFrom.get(timeline);
+        if (swept === undefined || startDate < swept) {
+          sweptFrom.set(timeline, startDate);
+          (ordersByTimeline.get(timeline) ?? [])
+            .filter(wo => wo.data.endDate > startDate && !affected.has(wo.docId))
+            .forEach(wo => queue.push(wo.docId));
+        }
+      });
+    }
+
+    return affected;
+  }
+
+  /**
+   * Why work orders can never be placed, by work order id: a required resource that
+   * does not exist, material that never fully arrives, or labor requirements the
+   * operator pools cannot meet even with every operator free (the slot search could
+   * never succeed)
+   */
+  private findPlacementBlockers(
+    workOrders: WorkOrder[],
+    shortItemIds: Map<string, string>,
+    context: ReflowContext
+  ): Map<string, InvalidInputError> {
+    const { resourceMap, operatorPools, manufacturingOrderMap } = context;
+    const blockers = new Map<string, InvalidInputError>();
+    const allOperators = operatorPools.map(operatorPool => ({ operatorPool, operators: operatorPool.data.headcount }));
+
+    workOrders.forEach(wo => {
+      const { workOrderNumber, manufacturingOrderId } = wo.data;
+      const missingResourceId = (wo.data.requiredResourceIds ?? []).find(id => !resourceMap.has(id));
+      const shortItemId = shortItemIds.get(manufacturingOrderId);
+      const laborRequirements = wo.data.laborRequirements ?? [];
+      const unmetRequirement = laborRequirements.find(requirement =>
+        !matchLaborRequirements([requirement], allOperators)
+      );
+      const unmetCombination = !unmetRequirement && !matchLaborRequirements(laborRequirements, allOperators);
+
+      if (missingResourceId) {
+        blockers.set(wo.docId, new InvalidInputError(
+          `Work order ${workOrderNumber} requires non-existent resource: ${missingResourceId}`,
+          [wo.docId, missingResourceId]
+        ));
+      } else if (shortItemId) {
+        const manufacturingOrderNumber =
+          manufacturingOrderMap.get(manufacturingOrderId)?.data.manufacturingOrderNumber ?? manufacturingOrderId;
+        blockers.set(wo.docId, new InvalidInputError(
+          `Material for manufacturing order ${manufacturingOrderNumber} never fully arrives: ${shortItemId}`,
+          [wo.docId, manufacturingOrderId]
+        ));
+      } else if (unmetRequirement) {
+        blockers.set(wo.docId, new InvalidInputError(
+          `Work order ${workOrderNumber} needs ${unmetRequirement.operators} operators skilled in ${unmetRequirement.skill}, but no operator pool can provide them`,
+          [wo.docId]
+        ));
+      } else if (unmetCombination) {
+        const needs = laborRequirements.map(({ skill, operators }) => `${operators} ${skill}`).join(', ');
+        blockers.set(wo.docId, new InvalidInputError(
+          `Work order ${workOrderNumber} needs operators for ${needs} at once, but the operator pools cannot provide them together`,
+          [wo.docId]
+        ));
+      }
+    });
+
+    return blockers;
+  }
+
+  /**
+   * Earliest start date in a schedule (default floor for compaction)
+   */
+  private findEarliestStartDate(workOrders: WorkOrder[]): string | undefined {
+    return workOrders.reduce<string | undefined>(
+      (earliest, wo) => (!earliest || wo.data.startDate < earliest ? wo.data.startDate : earliest),
+      undefined
+    );
+  }
+
+  /**
+   * Work center a work order sits on
+   */
+  private getWorkCenter(workOrder: WorkOrder, workCenterMap: Map<string, WorkCenter>): WorkCenter {
+    const workCenter = workCenterMap.get(workOrder.data.workCenterId);
+    if (!workCenter) {
+      throw new UnknownWorkCenterError(
+        `Work order ${workOrder.data.workOrderNumber} references non-existent work center: ${workOrder.data.workCenterId}`,
+        [workOrder.docId, workOrder.data.workCenterId]
+      );
+    }
+    return workCenter;
+  }
+
+  /**
+   * Run shift calculations for a work order on a work center; shift errors from the
+   * date utils (which only see shifts, not documents) are rethrown with both docIds
+   */
+  private tagShiftErrors<T>(workOrder: WorkOrder, workCenter: WorkCenter, calculate: () => T): T {
+    try {
+      return calculate();
+    } catch (error) {
+      const docIds = [workOrder.docId, workCenter.docId];
+      if (error instanceof ShiftConfigurationError && error.docIds.length === 0) {
+        throw new ShiftConfigurationError(error.message, docIds);
+      }
+      if (error instanceof IterationLimitError && error.docIds.length === 0) {
+        throw new IterationLimitError(error.message, docIds);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recalculate an in-progress work order's end date from its remaining work; its
+   * start stays put. The remaining minutes run from `now`, or without it from where
+   * the completed setup and run would end.
+   * Returns the change when the end date moves
+   */
+  private rescheduleRemainingWork(workOrder: WorkOrder, context: ReflowContext): WorkOrderChange | undefined {
+    const { now } = context;
+    const workCenter = this.getWorkCenter(workOrder, context.workCenterMap);
+
+    const { startDate, endDate: originalEndDate } = workOrder.data;
+    const { shifts } = workCenter.data;
+    const calendarOptions = getCalendarOptions(workCenter);
+    const remainingMinutes = getRemainingMinutes(workOrder);
+
+    const completedMinutes =
+      (workOrder.data.setupTimeMinutes ?? 0) + Math.max(0, getProcessingMinutes(workOrder) - remainingMinutes);
+    const newEndDate = this.tagShiftErrors(workOrder, workCenter, () => {
+      const resumeDate = now && now > startDate
+        ? now
+        : calculateEndDateWithShifts(startDate, completedMinutes, shifts, calendarOptions);
+      return calculateEndDateWithShifts(resumeDate, remainingMinutes, shifts, calendarOptions);
+    });
+
+    if (newEndDate === originalEndDate) {
+      return undefined;
+    }
+    workOrder.data.endDate = newEndDate;
+
+    return {
+      workOrderId: workOrder.docId,
+      workOrderNumber: workOrder.data.workOrderNumber,
+      originalStartDate: startDate,
+      originalEndDate,
+      newStartDate: startDate,
+      newEndDate,
+      delayMinutes: calculateDelayMinutes(originalEndDate, newEndDate),
+      reason: `In progress: ${remainingMinutes} minutes remaining`
+    };
+  }
+
+  /**
+   * Recalculate the end date of a firmed or maintenance work order whose duration a
+   * disruption changed; its start stays put and its setup and run follow from there
+   * Returns the change when the end date moves
+   */
+  private rescheduleResizedWork(workOrder: WorkOrder, context: ReflowContext): WorkOrderChange | undefined {
+    const workCenter = this.getWorkCenter(workOrder, context.workCenterMap);
+
+    const { startDate, endDate: originalEndDate } = workOrder.data;
+    const processingMinutes = getProcessingMinutes(workOrder);
+    const newEndDate = this.tagShiftErrors(workOrder, workCenter, () =>
+      calculateEndDateWithShifts(
+        startDate,
+        (workOrder.data.setupTimeMinutes ?? 0) + processingMinutes,
+        workCenter.data.shifts,
+        getCalendarOptions(workCenter)
+      )
+    );
+
+    if (newEndDate === originalEndDate) {
+      return undefined;
+    }
+    workOrder.data.endDate = newEndDate;
+
+    return {
+      workOrderId: workOrder.docId,
+      workOrderNumber: workOrder.data.workOrderNumber,
+      originalStartDate: startDate,
+      originalEndDate,
+      newStartDate: startDate,
+      newEndDate,
+      delayMinutes: calculateDelayMinutes(originalEndDate, newEndDate),
+      reason: `${workOrder.data.isMaintenance ? 'Maintenance' : 'Firmed'}: keeps its start, run now takes ${processingMinutes} minutes`
     };
   }
 
+  /**
+   * Schedule a work order on each eligible work center and keep the one that
+   * finishes first; ties stay on the current work center
+   * Alternates are evaluated on moved copies, so the order itself is not changed
+   */
+  private findBestPlacement(workOrder: WorkOrder, scheduleIndex: ScheduleIndex, context: ReflowContext): Placement {
+    const placements = getEligibleWorkCenters(workOrder).map(({ workCenterId }): Placement => {
+      const candidate = workCenterId === workOrder.data.workCenterId
+        ? workOrder
+        : moveToWorkCenter(workOrder, workCenterId);
+      const workCenter = this.getWorkCenter(candidate, context.workCenterMap);
+
+      return this.tagShiftErrors(candidate, workCenter, () => {
+        const startDate = this.calculateEarliestStartTime(candidate, scheduleIndex, context);
+        const setupMinutes = this.getSetupMinutes(candidate, startDate, scheduleIndex, workCenter, context);
+        const endDate = calculateEndDateWithShifts(
+          startDate,
+          setupMinutes + getProcessingMinutes(candidate),
+          workCenter.data.shifts,
+          getCalendarOptions(workCenter)
+        );
+
+        return { workOrder: candidate, workCenter, startDate, setupMinutes, endDate };
+      });
+    });
+
+    const best = placements.reduce((best, placement) => (placement.endDate < best.endDate ? placement : best));
+
+    // Compaction never leaves an order later than a search from its own start would
+    if (context.compactFrom && best.startDate > workOrder.data.startDate) {
+      const inPlace = this.findBestPlacement(workOrder, scheduleIndex, { ...context, compactFrom: undefined });
+      return inPlace.startDate < best.startDate ? inPlace : best;
+    }
+    return best;
+  }
+
   /**
    * Calculate the earliest valid start time for a work order
    * Considers dependencies, work center conflicts, shifts, and maintenance
+   * With a compaction floor the search starts there, so the order can move earlier
+   * Nothing starts before `now`
    */
   private calculateEarliestStartTime(
     workOrder: WorkOrder,
-    allWorkOrders: WorkOrder[],
-    workCenterMap: Map<string, WorkCenter>
+    scheduleIndex: ScheduleIndex,
+    context: ReflowContext
   ): string {
-    const workCenter = workCenterMap.get(workOrder.data.workCenterId)!;
+    const { compactFrom, materialReadyDates, now } = context;
+    const workCenter = this.getWorkCenter(workOrder, context.workCenterMap);
 
-    // Start with current start date or earliest dependency completion
-    let candidateStart = workOrder.data.startDate;
+    // Start with current start date (or the compaction floor) or earliest dependency completion
+    let candidateStart = compactFrom ?? workOrder.data.startDate;
 
-    // Check 1: All dependencies must complete first
-    const parents = workOrder.data.dependsOnWorkOrderIds
-      .map(id => allWorkOrders.find(wo => wo.docId === id))
-      .filter((wo): wo is WorkOrder => wo !== undefined);
+    // Check 0: Work is not released before its release date or before its material
+    // arrives, and cannot start in the past
+    const notBefore = [workOrder.data.releaseDate, materialReadyDates.get(workOrder.data.manufacturingOrderId), now];
+    notBefore.forEach(date => {
+      if (date && date > candidateStart) {
+        candidateStart = date;
+      }
+    });
 
-    if (parents.length > 0) {
-      const latestParentEnd = parents.reduce((latest, parent) => {
-        return parent.data.endDate > latest ? parent.data.endDate : latest;
-      }, '');
+    // Check 1: All dependencies must complete first (plus any lag)
+    // Finish-linked dependencies instead set the earliest end, checked per slot
+    const readyTimes = this.getParentReadyTimes(workOrder, scheduleIndex, workCenter);
+    const latestReadyTime = (finishes: boolean): string =>
+      readyTimes
+        .filter(({ dependency }) => constrainsFinish(dependency) === finishes)
+        .reduce((latest, { readyTime }) => (readyTime > latest ? readyTime : latest), '');
 
-      if (latestParentEnd > candidateStart) {
-        candidateStart = latestParentEnd;
-      }
+    const latestStartReadyTime = latestReadyTime(false);
+    if (latestStartReadyTime > candidateStart) {
+      candidateStart = latestStartReadyTime;
     }
 
     // Check 2: Find next available slot on work center
     candidateStart = this.findNextAvailableSlot(
       candidateStart,
       workOrder,
-      allWorkOrders,
-      workCenter
+      scheduleIndex,
+      workCenter,
+      context,
+      latestReadyTime(true) || undefined
     );
 
     return candidateStart;
   }
 
+  /**
+   * Each dependency with its parent and the time it lets the work order start
+   * (or finish, for finish-linked dependencies)
+   */
+  private getParentReadyTimes(
+    workOrder: WorkOrder,
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter
+  ): Array<{ parent: WorkOrder; dependency: WorkOrderDependency; readyTime: string }> {
+    return getDependencies(workOrder).flatMap(dependency => {
+      const parent = scheduleIndex.get(dependency.workOrderId);
+      return parent
+        ? [{ parent, dependency, readyTime: getDependencyReadyTime(parent, dependency, workCenter) }]
+        : [];
+    });
+  }
+
+  /**
+   * Setup time the work order needs on its work center ahead of the run
+   * Uses the work center's changeover matrix when the order running just before
+   * the given start produces a different item, otherwise the order's own setup time
+   */
+  private getSetupMinutes(
+    workOrder: WorkOrder,
+    startDate: string,
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter,
+    context: ReflowContext
+  ): number {
+    const defaultSetup = workOrder.data.setupTimeMinutes ?? 0;
+
+    if (!workCenter.data.changeoverMatrix) {
+      return defaultSetup;
+    }
+
+    const previous = scheduleIndex.findPrevious(
+      workOrder.data.workCenterId,
+      startDate,
+      wo => wo.docId !== workOrder.docId && !wo.data.isMaintenance
+    );
+    if (!previous) {
+      return defaultSetup;
+    }
+
+    return getChangeoverMinutesAfter(previous, workOrder, workCenter, context.manufacturingOrderMap) ?? defaultSetup;
+  }
+
+  /**
+   * Placed work order a slot would leave without its changeover: the slot's order
+   * becomes the one running just before it, and its own slot leaves less setup
+   * time than the changeover from the slot's item takes
+   * Placed orders keep their dates, so such a slot is refused instead
+   */
+  private findChangeoverBlocker(
+    startDate: string,
+    endDate: string,
+    workOrder: WorkOrder,
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter,
+    context: ReflowContext
+  ): WorkOrder | undefined {
+    if (!workCenter.data.changeoverMatrix) {
+      return undefined;
+    }
+
+    const isOther = (wo: WorkOrder): boolean => wo.docId !== workOrder.docId && !wo.data.isMaintenance;
+    const next = scheduleIndex.findNext(workOrder.data.workCenterId, endDate, isOther);
+    // In-progress orders are past their setup
+    if (!next || next.data.status === 'IN_PROGRESS') {
+      return undefined;
+    }
+
+    // Another order running between the slot and the next one keeps its changeover as is
+    const previous = scheduleIndex.findPrevious(workOrder.data.workCenterId, next.data.startDate, isOther);
+    if (previous && previous.data.endDate > endDate) {
+      return undefined;
+    }
+
+    const changeoverMinutes = getChangeoverMinutesAfter(workOrder, next, workCenter, context.manufacturingOrderMap);
+    return changeoverMinutes !== undefined && changeoverMinutes > getScheduledSetupMinutes(next, workCenter)
+      ? next
+      : undefined;
+  }
+
   /**
    * Find next available time slot on a work center
    * Avoids conflicts with other work orders and maintenance windows
+   * The slot covers setup followed by the run, and must not end before finishNoEarlierThan
    */
   private findNextAvailableSlot(
     startFrom: string,
     workOrder: WorkOrder,
-    allWorkOrders: WorkOrder[],
-    workCenter: WorkCenter
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter,
+    context: ReflowContext,
+    finishNoEarlierThan?: string
   ): string {
     let candidateStart = startFrom;
     const maxIterations = 1000;
@@ -172,20 +1015,65 @@ export class ReflowService {
       // Ensure start is within shift hours
       candidateStart = this.adjustToShiftStart(candidateStart, workCenter);
 
-      // Calculate end date for this candidate start
+      // Calculate end date for this candidate start (setup + run)
+      // Setup depends on which order precedes this candidate on the work center
+      const setupMinutes = this.getSetupMinutes(workOrder, candidateStart, scheduleIndex, workCenter, context);
+      const workMinutes = setupMinutes + getProcessingMinutes(workOrder);
+
+      // Work that must not split (or not into short pieces) starts where it fits;
+      // setup may differ at the new start, so check again from there
+      const minChunkMinutes = getMinChunkMinutes(workOrder, workCenter);
+      if (minChunkMinutes !== undefined) {
+        const pieceMinutes = Math.min(minChunkMinutes, workMinutes);
+        const longestBlockMinutes = findLongestWorkingBlock(
+          candidateStart,
+          workCenter.data.shifts,
+          getCalendarOptions(workCenter),
+          pieceMinutes
+        );
+        if (longestBlockMinutes < pieceMinutes) {
+          throw new ShiftConfigurationError(
+            `Work order ${workOrder.data.workOrderNumber} needs ${pieceMinutes} minutes of unbroken working time, but the longest block of working time on ${workCenter.data.name} is ${longestBlockMinutes} minutes`,
+            [workOrder.docId, workCenter.docId]
+          );
+        }
+
+        const fittingStart = findStartForMinChunk(
+          candidateStart,
+          workMinutes,
+          minChunkMinutes,
+          workCenter.data.shifts,
+          getCalendarOptions(workCenter)
+        );
+        if (fittingStart !== candidateStart) {
+          candidateStart = fittingStart;
+          continue;
+        }
+      }
+
       const candidateEnd = calculateEndDateWithShifts(
         candidateStart,
-        workOrder.data.durationMinutes,
-        workCenter.data.shifts
+        workMinutes,
+        workCenter.data.shifts,
+        getCalendarOptions(workCenter)
       );
 
+      // Finishing too early - push the start back by the shortfall and try again
+      if (finishNoEarlierThan && candidateEnd < finishNoEarlierThan) {
+        candidateStart = DateTime.fromISO(candidateStart, { zone: 'utc' })
+          .plus({ minutes: Math.max(1, calculateDelayMinutes(candidateEnd, finishNoEarlierThan)) })
+          .toISO()!;
+        continue;
+      }
+
       // Check if this slot is available
       if (this.isSlotAvailable(
         candidateStart,
         candidateEnd,
         workOrder,
-        allWorkOrders,
-        workCenter
+        scheduleIndex,
+        workCenter,
+        context
       )) {
         return candidateStart;
       }
@@ -195,64 +1083,69 @@ export class ReflowService {
         candidateStart,
         candidateEnd,
         workOrder,
-        allWorkOrders,
-        workCenter
+        scheduleIndex,
+        workCenter,
+        context
       );
     }
 
-    throw new Error(
-      `Could not find available slot for work order ${workOrder.data.workOrderNumber} after ${maxIterations} iterations`
+    throw new IterationLimitError(
+      `Could not find available slot for work order ${workOrder.data.workOrderNumber} after ${maxIterations} iterations`,
+      [workOrder.docId, workCenter.docId]
     );
   }
 
   /**
    * Adjust start time to next shift start if outside shift hours
+   * Overnight shifts count as working time on both sides of midnight
+   * Shift hours are read in the work center's time zone
    */
   private adjustToShiftStart(date: string, workCenter: WorkCenter): string {
-    const dt = DateTime.fromISO(date, { zone: 'utc' });
-    const dayOfWeek = dt.weekday % 7;
-    const shift = workCenter.data.shifts.find(s => s.dayOfWeek === dayOfWeek);
-
-    if (!shift) {
-      // No shift today, find next shift
-      return findNextShiftStart(date, workCenter.data.shifts);
-    }
-
-    const hour = dt.hour;
-    const minute = dt.minute;
-    const currentMinutes = hour * 60 + minute;
-    const shiftStartMinutes = shift.startHour * 60;
-    const shiftEndMinutes = shift.endHour * 60;
-
-    if (currentMinutes < shiftStartMinutes) {
-      // Before shift starts
-      return dt.startOf('day').plus({ hours: shift.startHour }).toISO()!;
-    } else if (currentMinutes >= shiftEndMinutes) {
-      // After shift ends
-      return findNextShiftStart(date, workCenter.data.shifts);
-    }
-
-    return date;
+    return findNextWorkingTime(date, workCenter.data.shifts, getCalendarOptions(workCenter));
   }
 
   /**
    * Check if a time slot is available (no conflicts)
+   * The slot spans setup and run, so setup time blocks the work center too,
+   * and required resources and operators are held for all of it
    */
   private isSlotAvailable(
     startDate: string,
     endDate: string,
     workOrder: WorkOrder,
-    allWorkOrders: WorkOrder[],
-    workCenter: WorkCenter
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter,
+    context: ReflowContext
   ): boolean {
-    // Check work center conflicts
-    const conflictingOrders = allWorkOrders.filter(wo =>
-      wo.docId !== workOrder.docId &&
-      wo.data.workCenterId === workOrder.data.workCenterId &&
-      timeRangesOverlap(startDate, endDate, wo.data.startDate, wo.data.endDate)
+    // Check work center conflicts (every unit of the work center busy at some point)
+    const peakLoad = scheduleIndex.findPeakLoad(
+      workOrder.data.workCenterId,
+      startDate,
+      endDate,
+      workOrder.docId
     );
 
-    if (conflictingOrders.length > 0) {
+    if (peakLoad >= getCapacity(workCenter)) {
+      return false;
+    }
+
+    // Check the changeover of the order that would run right after this one
+    if (this.findChangeoverBlocker(startDate, endDate, workOrder, scheduleIndex, workCenter, context)) {
+      return false;
+    }
+
+    // Check required resources - their holders may be on any work center
+    const resourceBusy = (workOrder.data.requiredResourceIds ?? []).some(resourceId =>
+      scheduleIndex.findResourcePeakLoad(resourceId, startDate, endDate, workOrder.docId) >=
+        getResourceQuantity(context.resourceMap.get(resourceId)!)
+    );
+
+    if (resourceBusy) {
+      return false;
+    }
+
+    // Check labor - every requirement needs a pool on shift with enough free operators
+    if (!this.assignOperators(workOrder, startDate, endDate, scheduleIndex, workCenter, context)) {
       return false;
     }
 
@@ -264,6 +1157,34 @@ export class ReflowService {
     return true;
   }
 
+  /**
+   * Draw the labor requirements from pools with the skill that are on shift whenever
+   * the work center works during the slot, matched against their free operators
+   * Returns undefined when the requirements cannot all be met
+   */
+  private assignOperators(
+    workOrder: WorkOrder,
+    startDate: string,
+    endDate: string,
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter,
+    context: ReflowContext
+  ): OperatorAssignment[] | undefined {
+    const requirements = workOrder.data.laborRequirements ?? [];
+    const availablePools = context.operatorPools
+      .filter(pool =>
+        requirements.some(({ skill }) => pool.data.skills.includes(skill)) &&
+        findUncoveredTime(pool, workCenter, startDate, endDate) === undefined
+      )
+      .map(operatorPool => ({
+        operatorPool,
+        operators: operatorPool.data.headcount -
+          scheduleIndex.findOperatorPoolPeakLoad(operatorPool.docId, startDate, endDate, workOrder.docId)
+      }));
+
+    return matchLaborRequirements(requirements, availablePools);
+  }
+
   /**
    * Find next potential start time after a conflict
    */
@@ -271,20 +1192,70 @@ export class ReflowService {
     currentStart: string,
     currentEnd: string,
     workOrder: WorkOrder,
-    allWorkOrders: WorkOrder[],
-    workCenter: WorkCenter
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter,
+    context: ReflowContext
   ): string {
     // Find all blocking periods
     const blockingPeriods: Array<{ start: string; end: string }> = [];
 
-    // Add conflicting work orders
-    allWorkOrders.forEach(wo => {
-      if (wo.docId !== workOrder.docId && wo.data.workCenterId === workOrder.data.workCenterId) {
-        if (timeRangesOverlap(currentStart, currentEnd, wo.data.startDate, wo.data.endDate)) {
-          blockingPeriods.push({ start: wo.data.startDate, end: wo.data.endDate });
+    // Add conflicting work orders; once the first of them ends, the work center may
+    // still be full with the orders queued behind it, so skip to where a unit frees up
+    const conflicting = scheduleIndex.findOverlapping(
+      workOrder.data.workCenterId,
+      currentStart,
+      currentEnd,
+      workOrder.docId
+    );
+    if (conflicting.length > 0) {
+      const firstEnd = conflicting.reduce(
+        (earliest, wo) => (wo.data.endDate < earliest ? wo.data.endDate : earliest),
+        conflicting[0].data.endDate
+      );
+      blockingPeriods.push({
+        start: currentStart,
+        end: scheduleIndex.findNextFree(workOrder.data.workCenterId, firstEnd, getCapacity(workCenter))
+      });
+    }
+
+    // Add the order this slot would leave without its changeover
+    const changeoverBlocker = this.findChangeoverBlocker(
+      currentStart,
+      currentEnd,
+      workOrder,
+      scheduleIndex,
+      workCenter,
+      context
+    );
+    if (changeoverBlocker) {
+      blockingPeriods.push({ start: changeoverBlocker.data.startDate, end: changeoverBlocker.data.endDate });
+    }
+
+    // Add work orders holding a required resource
+    (workOrder.data.requiredResourceIds ?? []).forEach(resourceId =>
+      scheduleIndex
+        .findResourceOverlapping(resourceId, currentStart, currentEnd, workOrder.docId)
+        .forEach(wo => blockingPeriods.push({ start: wo.data.startDate, end: wo.data.endDate }))
+    );
+
+    // Add work orders drawing from pools with a required skill, and the time a pool
+    // is off shift until its next shift starts
+    const skills = (workOrder.data.laborRequirements ?? []).map(requirement => requirement.skill);
+    context.operatorPools
+      .filter(pool => pool.data.skills.some(skill => skills.includes(skill)))
+      .forEach(pool => {
+        scheduleIndex
+          .findOperatorPoolOverlapping(pool.docId, currentStart, currentEnd, workOrder.docId)
+          .forEach(wo => blockingPeriods.push({ start: wo.data.startDate, end: wo.data.endDate }));
+
+        const uncovered = findUncoveredTime(pool, workCenter, currentStart, currentEnd);
+        if (uncovered) {
+          blockingPeriods.push({
+            start: uncovered,
+            end: findNextShiftStart(uncovered, pool.data.shifts, getOperatorPoolCalendarOptions(pool))
+          });
         }
-      }
-    });
+      });
 
     // Add maintenance windows
     workCenter.data.maintenanceWindows.forEach(window => {
@@ -306,54 +1277,264 @@ export class ReflowService {
     return earliestEnd;
   }
 
+  /**
+   * Build the comparator used to order ready work orders in the topological sort
+   * Rules are applied in sequence until one of them separates the two orders
+   */
+  private createSequencingComparator(
+    rules: SequencingRule[],
+    manufacturingOrderMap: Map<string, ManufacturingOrder>
+  ): (a: WorkOrder, b: WorkOrder) => number {
+    const priorityOf = (wo: WorkOrder): number =>
+      wo.data.priority ??
+      manufacturingOrderMap.get(wo.data.manufacturingOrderId)?.data.priority ??
+      Number.MAX_SAFE_INTEGER;
+
+    const dueDateOf = (wo: WorkOrder): string =>
+      manufacturingOrderMap.get(wo.data.manufacturingOrderId)?.data.dueDate ?? '9999-12-31T23:59:59.999Z';
+
+    const processingMinutesOf = (wo: WorkOrder): number =>
+      (wo.data.setupTimeMinutes ?? 0) + getProcessingMinutes(wo);
+
+    const compareStrings = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+    return (a, b) => {
+      for (const rule of rules) {
+        let order = 0;
+
+        switch (rule) {
+          case 'PRIORITY':
+            order = priorityOf(a) - priorityOf(b);
+            break;
+          case 'EARLIEST_DUE_DATE':
+            order = compareStrings(dueDateOf(a), dueDateOf(b));
+            break;
+          case 'SHORTEST_PROCESSING_TIME':
+            order = processingMinutesOf(a) - processingMinutesOf(b);
+            break;
+          case 'ORIGINAL_START':
+            order = compareStrings(a.data.startDate, b.data.startDate);
+            break;
+        }
+
+        if (order !== 0) {
+          return order;
+        }
+      }
+
+      return 0;
+    };
+  }
+
   /**
    * Generate explanation for why a work order was rescheduled
    */
   private generateChangeReason(
     workOrder: WorkOrder,
-    allWorkOrders: WorkOrder[],
-    workCenterMap: Map<string, WorkCenter>
+    originalStartDate: string,
+    originalEndDate: string,
+    originalWorkCenterId: string,
+    scheduleIndex: ScheduleIndex,
+    workCenter: WorkCenter,
+    setupMinutes: number,
+    context: ReflowContext
   ): string {
+    const { resourceMap, materialReadyDates, now } = context;
     const reasons: string[] = [];
 
+    if (workOrder.data.workCenterId !== originalWorkCenterId) {
+      reasons.push(`Moved from work center ${originalWorkCenterId} to ${workCenter.docId} for an earlier finish`);
+    }
+
+    // Compaction moved the order into capacity that freed up
+    if (workOrder.data.startDate < originalStartDate) {
+      const minutesEarlier = calculateDelayMinutes(workOrder.data.startDate, originalStartDate);
+      reasons.push(`Moved earlier into freed capacity (${minutesEarlier} minutes earlier)`);
+    }
+
+    if (now && now > originalStartDate) {
+      reasons.push(`Cannot start in the past (now is ${now})`);
+    }
+
+    // Check release date and material
+    const { releaseDate } = workOrder.data;
+    if (releaseDate && releaseDate > originalStartDate) {
+      reasons.push(`Not released until ${releaseDate}`);
+    }
+
+    const materialReadyDate = materialReadyDates.get(workOrder.data.manufacturingOrderId);
+    if (materialReadyDate && materialReadyDate > originalStartDate) {
+      reasons.push(`Waiting for material (arrives ${materialReadyDate})`);
+    }
+
     // Check dependencies
-    const parents = workOrder.data.dependsOnWorkOrderIds
-      .map(id => allWorkOrders.find(wo => wo.docId === id))
-      .filter((wo): wo is WorkOrder => wo !== undefined);
+    const delayedParents = this.getParentReadyTimes(workOrder, scheduleIndex, workCenter)
+      .filter(({ dependency, readyTime }) =>
+        readyTime > (constrainsFinish(dependency) ? originalEndDate : originalStartDate)
+      )
+      .map(({ parent }) => parent);
 
-    if (parents.length > 0) {
-      const delayedParents = parents.filter(p => p.data.endDate > workOrder.data.startDate);
-      if (delayedParents.length > 0) {
-        reasons.push(
-          `Waiting for dependencies: ${delayedParents.map(p => p.data.workOrderNumber).join(', ')}`
-        );
-      }
+    if (delayedParents.length > 0) {
+      reasons.push(
+        `Waiting for dependencies: ${delayedParents.map(p => p.data.workOrderNumber).join(', ')}`
+      );
     }
 
     // Check work center conflicts
-    const workCenter = workCenterMap.get(workOrder.data.workCenterId);
-    if (workCenter) {
-      const conflicting = allWorkOrders.filter(wo =>
-        wo.docId !== workOrder.docId &&
-        wo.data.workCenterId === workOrder.data.workCenterId &&
-        wo.data.endDate > workOrder.data.startDate &&
-        wo.data.startDate < workOrder.data.startDate
+    // Busy only if every unit was taken (orders that moved away compare against one unit)
+    const originalCapacity = workCenter.docId === originalWorkCenterId ? getCapacity(workCenter) : 1;
+    const peakLoad = scheduleIndex.findPeakLoad(
+      originalWorkCenterId,
+      originalStartDate,
+      originalEndDate,
+      workOrder.docId
+    );
+
+    if (peakLoad >= originalCapacity) {
+      const conflicting = scheduleIndex.findOverlapping(
+        originalWorkCenterId,
+        originalStartDate,
+        originalEndDate,
+        workOrder.docId
+      );
+      reasons.push(`Work center busy with: ${conflicting[0].data.workOrderNumber}`);
+    }
+
+    // Check required resources held by other orders during the original slot
+    (workOrder.data.requiredResourceIds ?? []).forEach(resourceId => {
+      const resource = resourceMap.get(resourceId)!;
+      const peak = scheduleIndex.findResourcePeakLoad(resourceId, originalStartDate, originalEndDate, workOrder.docId);
+
+      if (peak >= getResourceQuantity(resource)) {
+        const holders = scheduleIndex.findResourceOverlapping(
+          resourceId,
+          originalStartDate,
+          originalEndDate,
+          workOrder.docId
+        );
+        reasons.push(`Resource ${resource.data.name} held by: ${holders[0].data.workOrderNumber}`);
+      }
+    });
+
+    // Check operator pools that could not staff the original slot (short of operators or off shift)
+    const originalWorkCenter = context.workCenterMap.get(originalWorkCenterId);
+    const { laborRequirements } = workOrder.data;
+    if (
+      laborRequirements &&
+      originalWorkCenter &&
+      !this.assignOperators(workOrder, originalStartDate, originalEndDate, scheduleIndex, originalWorkCenter, context)
+    ) {
+      const shortPools = context.operatorPools.filter(pool =>
+        laborRequirements.some(({ skill }) => pool.data.skills.includes(skill)) &&
+        (scheduleIndex.findOperatorPoolPeakLoad(pool.docId, originalStartDate, originalEndDate, workOrder.docId) > 0 ||
+          findUncoveredTime(pool, originalWorkCenter, originalStartDate, originalEndDate) !== undefined)
       );
+      if (shortPools.length > 0) {
+        reasons.push(`Waiting for operators: ${shortPools.map(pool => pool.data.name).join(', ')}`);
+      }
+    }
 
-      if (conflicting.length > 0) {
-        reasons.push(`Work center busy with: ${conflicting[0].data.workOrderNumber}`);
+    // Check whether the work would have been split too finely at its original start
+    const minChunkMinutes = getMinChunkMinutes(workOrder, workCenter);
+    if (minChunkMinutes !== undefined && workOrder.data.workCenterId === originalWorkCenterId) {
+      const workMinutes = setupMinutes + getProcessingMinutes(workOrder);
+      const { shifts } = workCenter.data;
+      const calendarOptions = getCalendarOptions(workCenter);
+      if (
+        findStartForMinChunk(originalStartDate, workMinutes, minChunkMinutes, shifts, calendarOptions) !==
+        findNextWorkingTime(originalStartDate, shifts, calendarOptions)
+      ) {
+        reasons.push(
+          minChunkMinutes >= workMinutes
+            ? `Needs ${workMinutes} minutes of unbroken working time`
+            : `Cannot be split into pieces shorter than ${minChunkMinutes} minutes`
+        );
       }
     }
 
+    if (setupMinutes > 0) {
+      reasons.push(`Includes ${setupMinutes} minutes of setup`);
+    }
+
     return reasons.length > 0 ? reasons.join('; ') : 'Rescheduled for optimization';
   }
 
+  /**
+   * Collect the disruption events behind a change: events that touched the order
+   * directly, plus those of its parents and of the orders that took its original slot
+   */
+  private traceEventIds(
+    workOrder: WorkOrder,
+    originalStartDate: string,
+    originalEndDate: string,
+    originalWorkCenterId: string,
+    scheduleIndex: ScheduleIndex,
+    directEventIds: string[],
+    tracedEventIds: Map<string, string[]>
+  ): string[] {
+    const eventIds = new Set(directEventIds);
+
+    const parentIds = getParentIds(workOrder);
+    const blockerIds = scheduleIndex
+      .findOverlapping(originalWorkCenterId, originalStartDate, originalEndDate, workOrder.docId)
+      .map(wo => wo.docId);
+
+    [...parentIds, ...blockerIds].forEach(id =>
+      (tracedEventIds.get(id) ?? []).forEach(eventId => eventIds.add(eventId))
+    );
+
+    return [...eventIds];
+  }
+
+  /**
+   * Project each manufacturing order's completion (latest end of its work orders)
+   * and compare it with the due date
+   */
+  private calculateManufacturingOrderLateness(
+    manufacturingOrders: ManufacturingOrder[],
+    workOrders: WorkOrder[]
+  ): ManufacturingOrderLateness[] {
+    const completionByOrder = new Map<string, string>();
+
+    workOrders.forEach(wo => {
+      const current = completionByOrder.get(wo.data.manufacturingOrderId);
+      if (!current || wo.data.endDate > current) {
+        completionByOrder.set(wo.data.manufacturingOrderId, wo.data.endDate);
+      }
+    });
+
+    return manufacturingOrders
+      .filter(mo => completionByOrder.has(mo.docId))
+      .map(mo => {
+        const projectedCompletionDate = completionByOrder.get(mo.docId)!;
+        const latenessMinutes = calculateDelayMinutes(mo.data.dueDate, projectedCompletionDate);
+
+        return {
+          manufacturingOrderId: mo.docId,
+          manufacturingOrderNumber: mo.data.manufacturingOrderNumber,
+          dueDate: mo.data.dueDate,
+          projectedCompletionDate,
+          latenessMinutes,
+          isLate: latenessMinutes > 0
+        };
+      });
+  }
+
   /**
    * Generate overall explanation of reflow results
    */
-  private generateExplanation(changes: WorkOrderChange[]): string {
+  private generateExplanation(
+    changes: WorkOrderChange[],
+    manufacturingOrderLateness: ManufacturingOrderLateness[]
+  ): string {
+    const lateOrders = manufacturingOrderLateness.filter(mo => mo.isLate);
+    const lateSummary = lateOrders.length > 0
+      ? ` ${lateOrders.length} manufacturing order(s) projected late: ` +
+        `${lateOrders.map(mo => mo.manufacturingOrderNumber).join(', ')}.`
+      : '';
+
     if (changes.length === 0) {
-      return 'No changes needed - schedule is valid';
+      return 'No changes needed - schedule is valid' + (lateSummary ? `.${lateSummary}` : '');
     }
 
     const totalDelay = changes.reduce((sum, c) => sum + c.delayMinutes, 0);
@@ -361,7 +1542,8 @@ export class ReflowService {
 
     return `Rescheduled ${changes.length} work order(s). ` +
       `Total delay: ${totalDelay} minutes. ` +
-      `Average delay: ${avgDelay} minutes per order.`;
+      `Average delay: ${avgDelay} minutes per order.` +
+      lateSummary;
   }
 
   /**
@@ -370,33 +1552,49 @@ export class ReflowService {
   private calculateMetrics(
     changes: WorkOrderChange[],
     workOrders: WorkOrder[],
-    workCenters: WorkCenter[]
+    workCenters: WorkCenter[],
+    setupMinutesByWorkOrder: Map<string, number>,
+    manufacturingOrderLateness: ManufacturingOrderLateness[]
   ): OptimizationMetrics {
     const totalDelayMinutes = changes.reduce((sum, c) => sum + Math.max(0, c.delayMinutes), 0);
 
     // Calculate work center utilization
     const workCenterUtilization: Record<string, number> = {};
 
+    const workingMinutesByWorkCenter = new Map<string, number>();
+    workOrders.filter(consumesCapacity).forEach(wo => {
+      workingMinutesByWorkCenter.set(
+        wo.data.workCenterId,
+        (workingMinutesByWorkCenter.get(wo.data.workCenterId) ?? 0) +
+          (setupMinutesByWorkOrder.get(wo.docId) ?? 0) + getProcessingMinutes(wo)
+      );
+    });
+
     workCenters.forEach(wc => {
-      const orders = workOrders.filter(wo => wo.data.workCenterId === wc.docId);
-      const totalWorkingMinutes = orders.reduce((sum, wo) => sum + wo.data.durationMinutes, 0);
+      const totalWorkingMinutes = workingMinutesByWorkCenter.get(wc.docId) ?? 0;
 
       // Calculate available shift minutes (simplified - assumes one week)
       const weeklyShiftMinutes = wc.data.shifts.reduce((sum, shift) => {
-        return sum + (shift.endHour - shift.startHour) * 60;
+        return sum + getShiftWorkingMinutes(shift);
       }, 0);
 
-      const utilization = weeklyShiftMinutes > 0
-        ? (totalWorkingMinutes / weeklyShiftMinutes) * 100
+      // Every unit of a pooled work center contributes its own shift minutes
+      const availableMinutes = weeklyShiftMinutes * getCapacity(wc);
+      const utilization = availableMinutes > 0
+        ? (totalWorkingMinutes / availableMinutes) * 100
         : 0;
 
       workCenterUtilization[wc.docId] = Math.round(utilization * 100) / 100;
     });
 
+    const lateOrders = manufacturingOrderLateness.filter(mo => mo.isLate);
+
     return {
       totalDelayMinutes,
       workOrdersAffected: changes.length,
-      workCenterUtilization
+      workCenterUtilization,
+      lateManufacturingOrderIds: lateOrders.map(mo => mo.manufacturingOrderId),
+      totalLatenessMinutes: lateOrders.reduce((sum, mo) => sum + mo.latenessMinutes, 0)
     };
   }
 }
@@ -0,0 +1,88 @@
+/**
+ * Reflow errors - typed failures with stable codes
+ * Callers can branch on `code` (or the class) instead of parsing messages;
+ * `docIds` lists the documents behind the failure (work orders, work centers, ...)
+ */
+
+import { ValidationError } from '../types/common-types';
+
+export type ReflowErrorCode =
+  | 'CIRCULAR_DEPENDENCY'
+  | 'UNKNOWN_WORK_CENTER'
+  | 'INVALID_SHIFT_CONFIGURATION'
+  | 'ITERATION_LIMIT_EXCEEDED'
+  | 'INVALID_INPUT'
+  | 'INVALID_SCHEDULE';
+
+export class ReflowError extends Error {
+  readonly code: ReflowErrorCode;
+  readonly docIds: string[];
+
+  constructor(code: ReflowErrorCode, message: string, docIds: string[] = []) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.docIds = docIds;
+  }
+}
+
+/**
+ * Work orders depend on each other in a loop
+ */
+export class CircularDependencyError extends ReflowError {
+  constructor(message: string, workOrderIds: string[] = []) {
+    super('CIRCULAR_DEPENDENCY', message, workOrderIds);
+  }
+}
+
+/**
+ * A work order or event references a work center that is not in the input
+ */
+export class UnknownWorkCenterError extends ReflowError {
+  constructor(message: string, docIds: string[] = []) {
+    super('UNKNOWN_WORK_CENTER', message, docIds);
+  }
+}
+
+/**
+ * Shifts, time zone or calendar cannot produce working time
+ */
+export class ShiftConfigurationError extends ReflowError {
+  constructor(message: string, docIds: string[] = []) {
+    super('INVALID_SHIFT_CONFIGURATION', message, docIds);
+  }
+}
+
+/**
+ * A search gave up after its iteration limit (no slot or end date found)
+ */
+export class IterationLimitError extends ReflowError {
+  constructor(message: string, docIds: string[] = []) {
+    super('ITERATION_LIMIT_EXCEEDED', message, docIds);
+  }
+}
+
+/**
+ * Input that references missing documents or can never be satisfied
+ */
+export class InvalidInputError extends ReflowError {
+  constructor(message: string, docIds: string[] = []) {
+    super('INVALID_INPUT', message, docIds);
+  }
+}
+
+/**
+ * The rescheduled plan still breaks constraints; the validation errors say which
+ */
+export class InvalidScheduleError extends ReflowError {
+  readonly validationErrors: ValidationError[];
+
+  constructor(validationErrors: ValidationError[]) {
+    super(
+      'INVALID_SCHEDULE',
+      `Reflow produced invalid schedule:\n${validationErrors.map(e => `- ${e.message}`).join('\n')}`,
+      [...new Set(validationErrors.flatMap(e => e.workOrderIds))]
+    );
+    this.validationErrors = validationErrors;
+  }
+}
@@ -46,6 +46,15 @@ function runScenario(name: string, data: ReflowInput) {
       });
     }
 
+    const lateOrders = result.manufacturingOrderLateness.filter(mo => mo.isLate);
+    if (lateOrders.length > 0) {
+      console.log('\nLATE MANUFACTURING ORDERS:');
+      lateOrders.forEach(mo => {
+        console.log(`  - ${mo.manufacturingOrderNumber}: due ${mo.dueDate}, ` +
+          `projected ${mo.projectedCompletionDate} (${mo.latenessMinutes} minutes late)`);
+      });
+    }
+
     console.log('\nSchedule is valid!');
   } catch (error) {
     console.error('\nERROR:', error instanceof Error ? error.message : error);
@@ -74,3 +83,4 @@ if (require.main === module) {
 
 export { ReflowService };
 export * from './types/common-types';
+export * from './errors/reflow-errors';
@@ -2,7 +2,7 @@
  * Manufacturing Order model helpers
  */
 
-import { ManufacturingOrder, ManufacturingOrderData } from '../types/common-types';
+import { ManufacturingOrder, ManufacturingOrderData, MaterialArrival } from '../types/common-types';
 
 export function createManufacturingOrder(
   docId: string,
@@ -21,3 +21,45 @@ export function cloneManufacturingOrder(mo: ManufacturingOrder): ManufacturingOr
     data: { ...mo.data }
   };
 }
+
+/**
+ * Date each manufacturing order's material is fully on hand, plus the item each
+ * order is short of when its material never fully arrives
+ * Orders for the same item claim arrivals cumulatively, earliest due date first;
+ * orders whose item has no arrivals are left out (material already on hand)
+ */
+export function getMaterialAvailability(
+  manufacturingOrders: ManufacturingOrder[],
+  materialArrivals: MaterialArrival[]
+): { readyDates: Map<string, string>; shortItemIds: Map<string, string> } {
+  const readyDates = new Map<string, string>();
+  const shortItemIds = new Map<string, string>();
+  const arrivalsByItem = new Map<string, MaterialArrival[]>();
+  materialArrivals.forEach(arrival => {
+    arrivalsByItem.set(arrival.itemId, [...(arrivalsByItem.get(arrival.itemId) ?? []), arrival]);
+  });
+
+  arrivalsByItem.forEach((arrivals, itemId) => {
+    const sortedArrivals = [...arrivals].sort((a, b) => (a.arrivalDate < b.arrivalDate ? -1 : 1));
+    const orders = manufacturingOrders
+      .filter(mo => mo.data.itemId === itemId)
+      .sort((a, b) => (a.data.dueDate < b.data.dueDate ? -1 : a.data.dueDate > b.data.dueDate ? 1 : 0));
+
+    let demand = 0;
+    let arrived = 0;
+    let next = 0;
+    orders.forEach(mo => {
+      demand += mo.data.quantity;
+      while (arrived < demand && next < sortedArrivals.length) {
+        arrived += sortedArrivals[next++].quantity;
+      }
+      if (arrived < demand) {
+        shortItemIds.set(mo.docId, itemId);
+      } else {
+        readyDates.set(mo.docId, sortedArrivals[Math.max(0, next - 1)].arrivalDate);
+      }
+    });
+  });
+
+  return { readyDates, shortItemIds };
+}
@@ -0,0 +1,143 @@
+/**
+ * Operator Pool model helpers
+ */
+
+import {
+  OperatorPool,
+  OperatorPoolData,
+  CalendarOptions,
+  WorkCenter,
+  LaborRequirement,
+  OperatorAssignment
+} from '../types/common-types';
+import { findUncoveredWorkingTime } from '../utils/date-utils';
+import { getCalendarOptions } from './work-center';
+
+export function createOperatorPool(
+  docId: string,
+  data: OperatorPoolData
+): OperatorPool {
+  return {
+    docId,
+    docType: 'operatorPool',
+    data
+  };
+}
+
+/**
+ * Calendar settings for an operator pool's shifts
+ */
+export function getOperatorPoolCalendarOptions(operatorPool: OperatorPool): CalendarOptions {
+  return {
+    timeZone: operatorPool.data.timeZone,
+    exceptions: operatorPool.data.calendarExceptions
+  };
+}
+
+/**
+ * First time a work center works between two dates while the pool is off shift,
+ * or undefined when the pool's shifts cover all of it
+ */
+export function findUncoveredTime(
+  operatorPool: OperatorPool,
+  workCenter: WorkCenter,
+  startDate: string,
+  endDate: string
+): string | undefined {
+  return findUncoveredWorkingTime(
+    startDate,
+    endDate,
+    workCenter.data.shifts,
+    getCalendarOptions(workCenter),
+    operatorPool.data.shifts,
+    getOperatorPoolCalendarOptions(operatorPool)
+  );
+}
+
+/**
+ * Draw labor requirements from pools with a matching skill, each pool giving at most
+ * its free operators; a requirement may be split across pools
+ * Matches by augmenting paths (a max flow from requirements to pools), so an operator
+ * taken early is moved to another pool when a later requirement needs its pool
+ * Returns undefined when the pools cannot cover all requirements at once
+ */
+export function matchLaborRequirements(
+  requirements: LaborRequirement[],
+  availablePools: Array<{ operatorPool: OperatorPool; operators: number }>
+): OperatorAssignment[] | undefined {
+  const unmet = requirements.map(requirement => requirement.operators);
+  const free = availablePools.map(({ operators }) => Math.max(0, operators));
+  // drawn[r][p]: operators requirement r takes from pool p
+  const drawn = requirements.map(() => availablePools.map(() => 0));
+  const canServe = (r: number, p: number): boolean =>
+    availablePools[p].operatorPool.data.skills.includes(requirements[r].skill);
+
+  for (;;) {
+    // Breadth-first search from unmet requirements to a pool with free operators,
+    // moving operators already drawn from a pool back to their requirement on the way
+    const poolParent = new Map<number, number>();
+    const requirementParent = new Map<number, number>();
+    const queue = unmet.flatMap((operators, r) => (operators > 0 ? [r] : []));
+    queue.forEach(r => requirementParent.set(r, -1));
+    let freePool: number | undefined;
+
+    for (let i = 0; i < queue.length && freePool === undefined; i++) {
+      const r = queue[i];
+      for (let p = 0; p < availablePools.length && freePool === undefined; p++) {
+        if (poolParent.has(p) || !canServe(r, p)) continue;
+        poolParent.set(p, r);
+        if (free[p] > 0) {
+          freePool = p;
+        } else {
+          drawn.forEach((fromPools, next) => {
+            if (fromPools[p] > 0 && !requirementParent.has(next)) {
+              requirementParent.set(next, p);
+              queue.push(next);
+            }
+          });
+        }
+      }
+    }
+
+    if (freePool === undefined) {
+      break;
+    }
+
+    // Walk the path back to the unmet requirement it started from
+    const path: Array<{ r: number; p: number }> = [];
+    let p = freePool;
+    for (;;) {
+      const r = poolParent.get(p)!;
+      path.push({ r, p });
+      const previousPool = requirementParent.get(r)!;
+      if (previousPool === -1) break;
+      p = previousPool;
+    }
+    const start = path[path.length - 1].r;
+    const operators = Math.min(
+      unmet[start],
+      free[freePool],
+      ...path.slice(0, -1).map(({ r }) => drawn[r][requirementParent.get(r)!])
+    );
+
+    path.forEach(({ r, p: pool }) => {
+      drawn[r][pool] += operators;
+      const previousPool = requirementParent.get(r)!;
+      if (previousPool !== -1) {
+        drawn[r][previousPool] -= operators;
+      }
+    });
+    unmet[start] -= operators;
+    free[freePool] -= operators;
+  }
+
+  if (unmet.some(operators => operators > 0)) {
+    return undefined;
+  }
+
+  return requirements.flatMap(({ skill }, r) =>
+    availablePools
+      .map(({ operatorPool }, p) => ({ operatorPoolId: operatorPool.docId, skill, operators: drawn[r][p] }))
+      .filter(assignment => assignment.operators > 0)
+  );
+}
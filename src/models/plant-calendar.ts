@@ -0,0 +1,16 @@
+/**
+ * Plant Calendar model helpers
+ */
+
+import { PlantCalendar, PlantCalendarData } from '../types/common-types';
+
+export function createPlantCalendar(
+  docId: string,
+  data: PlantCalendarData
+): PlantCalendar {
+  return {
+    docId,
+    docType: 'plantCalendar',
+    data
+  };
+}
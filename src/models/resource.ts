@@ -0,0 +1,23 @@
+/**
+ * Resource model helpers
+ */
+
+import { Resource, ResourceData } from '../types/common-types';
+
+export function createResource(
+  docId: string,
+  data: ResourceData
+): Resource {
+  return {
+    docId,
+    docType: 'resource',
+    data
+  };
+}
+
+/**
+ * Number of work orders that can hold a resource at the same time
+ */
+export function getResourceQuantity(resource: Resource): number {
+  return resource.data.quantity ?? 1;
+}
@@ -3,7 +3,14 @@
  * Work Center model helpers
  */
 
-import { WorkCenter, WorkCenterData } from '../types/common-types';
+import {
+  WorkCenter,
+  WorkCenterData,
+  CalendarOptions,
+  CalendarException,
+  PlantCalendar
+} from '../types/common-types';
+import { InvalidInputError } from '../errors/reflow-errors';
 
 export function createWorkCenter(
   docId: string,
@@ -22,7 +29,79 @@ export function cloneWorkCenter(workCenter: WorkCenter): WorkCenter {
     data: {
       ...workCenter.data,
       shifts: [...workCenter.data.shifts],
-      maintenanceWindows: [...workCenter.data.maintenanceWindows]
+      maintenanceWindows: [...workCenter.data.maintenanceWindows],
+      calendarExceptions: workCenter.data.calendarExceptions && [...workCenter.data.calendarExceptions]
+    }
+  };
+}
+
+/**
+ * Look up the changeover time between two items on a work center
+ * Returns undefined when the changeover matrix has no entry for the pair
+ */
+export function getChangeoverMinutes(
+  workCenter: WorkCenter,
+  fromItemId: string,
+  toItemId: string
+): number | undefined {
+  return workCenter.data.changeoverMatrix?.[fromItemId]?.[toItemId];
+}
+
+/**
+ * Number of work orders a work center can run at the same time
+ */
+export function getCapacity(workCenter: WorkCenter): number {
+  return workCenter.data.capacity ?? 1;
+}
+
+/**
+ * Calendar settings for shift-aware date calculations on a work center
+ */
+export function getCalendarOptions(workCenter: WorkCenter): CalendarOptions {
+  return {
+    timeZone: workCenter.data.timeZone,
+    exceptions: workCenter.data.calendarExceptions
+  };
+}
+
+/**
+ * Fold a work center's plant calendar into its own calendar settings
+ * Returns a copy whose calendarExceptions hold the plant exceptions plus its own,
+ * with the work center's entries winning for the same date
+ * Work centers without a calendarId are returned unchanged
+ */
+export function applyPlantCalendar(
+  workCenter: WorkCenter,
+  plantCalendars: Map<string, PlantCalendar>
+): WorkCenter {
+  const calendarId = workCenter.data.calendarId;
+  if (!calendarId) {
+    return workCenter;
+  }
+
+  const plantCalendar = plantCalendars.get(calendarId);
+  if (!plantCalendar) {
+    throw new InvalidInputError(
+      `Work center ${workCenter.data.name} references non-existent plant calendar: ${calendarId}`,
+      [workCenter.docId, calendarId]
+    );
+  }
+
+  const exceptionsByDate = new Map<string, CalendarException>();
+  plantCalendar.data.exceptions.forEach(exception => exceptionsByDate.set(exception.date, exception));
+  (workCenter.data.calendarExceptions ?? []).forEach(exception =>
+    exceptionsByDate.set(exception.date, exception)
+  );
+
+  // The plant calendar is folded in, so the copy no longer references it
+  const { calendarId: _calendarId, ...data } = workCenter.data;
+
+  return {
+    ...workCenter,
+    data: {
+      ...data,
+      timeZone: workCenter.data.timeZone ?? plantCalendar.data.timeZone,
+      calendarExceptions: [...exceptionsByDate.values()]
     }
   };
 }
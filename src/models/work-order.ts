@@ -2,7 +2,17 @@
  * Work Order model helpers
  */
 
-import { WorkOrder, WorkOrderData } from '../types/common-types';
+import { DateTime } from 'luxon';
+import {
+  WorkOrder,
+  WorkOrderData,
+  WorkOrderDependency,
+  WorkCenter,
+  AlternateWorkCenter,
+  ManufacturingOrder
+} from '../types/common-types';
+import { calculateEndDateWithShifts, getWorkingPieces } from '../utils/date-utils';
+import { getCalendarOptions, getChangeoverMinutes } from './work-center';
 
 export function createWorkOrder(
   docId: string,
@@ -18,6 +28,209 @@ export function createWorkOrder(
 export function cloneWorkOrder(workOrder: WorkOrder): WorkOrder {
   return {
     ...workOrder,
-    data: { ...workOrder.data, dependsOnWorkOrderIds: [...workOrder.data.dependsOnWorkOrderIds] }
+    data: {
+      ...workOrder.data,
+      dependsOnWorkOrderIds: [...workOrder.data.dependsOnWorkOrderIds],
+      ...(workOrder.data.dependencies && {
+        dependencies: workOrder.data.dependencies.map(dependency => ({ ...dependency }))
+      }),
+      ...(workOrder.data.alternateWorkCenters && {
+        alternateWorkCenters: workOrder.data.alternateWorkCenters.map(alternate => ({ ...alternate }))
+      }),
+      ...(workOrder.data.requiredResourceIds && {
+        requiredResourceIds: [...workOrder.data.requiredResourceIds]
+      }),
+      ...(workOrder.data.laborRequirements && {
+        laborRequirements: workOrder.data.laborRequirements.map(requirement => ({ ...requirement }))
+      }),
+      ...(workOrder.data.operatorAssignments && {
+        operatorAssignments: workOrder.data.operatorAssignments.map(assignment => ({ ...assignment }))
+      })
+    }
+  };
+}
+
+/**
+ * All dependencies of a work order: its `dependencies` entries plus the bare ids in
+ * dependsOnWorkOrderIds (finish-to-start, no lag). A parent listed in both uses its
+ * `dependencies` entries.
+ */
+export function getDependencies(workOrder: WorkOrder): WorkOrderDependency[] {
+  const dependencies = workOrder.data.dependencies ?? [];
+  const detailedIds = new Set(dependencies.map(dependency => dependency.workOrderId));
+
+  return [
+    ...workOrder.data.dependsOnWorkOrderIds
+      .filter(id => !detailedIds.has(id))
+      .map(workOrderId => ({ workOrderId })),
+    ...dependencies
+  ];
+}
+
+/**
+ * Ids of all parent work orders, each listed once
+ */
+export function getParentIds(workOrder: WorkOrder): string[] {
+  return [...new Set(getDependencies(workOrder).map(dependency => dependency.workOrderId))];
+}
+
+/**
+ * Whether a dependency bounds the dependent's end date rather than its start date
+ */
+export function constrainsFinish(dependency: WorkOrderDependency): boolean {
+  return dependency.type === 'FINISH_TO_FINISH' || dependency.type === 'START_TO_FINISH';
+}
+
+/**
+ * Earliest time the dependent may start (or finish, see constrainsFinish): the
+ * parent's linked date plus the lag
+ * Working lags count shift time on the dependent's work center; without a work
+ * center they fall back to calendar time
+ */
+export function getDependencyReadyTime(
+  parent: WorkOrder,
+  dependency: WorkOrderDependency,
+  workCenter?: WorkCenter
+): string {
+  const fromParentStart = dependency.type === 'START_TO_START' || dependency.type === 'START_TO_FINISH';
+  const parentDate = fromParentStart ? parent.data.startDate : parent.data.endDate;
+
+  const lagMinutes = dependency.lagMinutes ?? 0;
+  if (lagMinutes <= 0) {
+    return parentDate;
+  }
+
+  if (dependency.lagType === 'WORKING' && workCenter) {
+    return calculateEndDateWithShifts(
+      parentDate,
+      lagMinutes,
+      workCenter.data.shifts,
+      getCalendarOptions(workCenter)
+    );
+  }
+
+  return DateTime.fromISO(parentDate, { zone: 'utc' }).plus({ minutes: lagMinutes }).toISO()!;
+}
+
+/**
+ * Work centers that can run a work order: its current one first, then its alternates
+ */
+export function getEligibleWorkCenters(workOrder: WorkOrder): AlternateWorkCenter[] {
+  const alternates = workOrder.data.alternateWorkCenters ?? [];
+  const current = alternates.find(alternate => alternate.workCenterId === workOrder.data.workCenterId);
+
+  return [
+    current ?? { workCenterId: workOrder.data.workCenterId },
+    ...alternates.filter(alternate => alternate !== current)
+  ];
+}
+
+/**
+ * Working minutes of the run on the order's current work center
+ * Applies the multiplier when the order sits on one of its alternates
+ */
+export function getProcessingMinutes(workOrder: WorkOrder): number {
+  const multiplier = workOrder.data.alternateWorkCenters
+    ?.find(alternate => alternate.workCenterId === workOrder.data.workCenterId)
+    ?.durationMultiplier ?? 1;
+
+  return Math.round(workOrder.data.durationMinutes * multiplier);
+}
+
+/**
+ * Changeover a work order needs on a work center right after another order: the
+ * changeover matrix entry from the other order's item to its own, if there is one
+ */
+export function getChangeoverMinutesAfter(
+  previous: WorkOrder,
+  workOrder: WorkOrder,
+  workCenter: WorkCenter,
+  manufacturingOrderMap: Map<string, ManufacturingOrder>
+): number | undefined {
+  const fromItemId = manufacturingOrderMap.get(previous.data.manufacturingOrderId)?.data.itemId;
+  const toItemId = manufacturingOrderMap.get(workOrder.data.manufacturingOrderId)?.data.itemId;
+  return fromItemId && toItemId ? getChangeoverMinutes(workCenter, fromItemId, toItemId) : undefined;
+}
+
+/**
+ * Setup time a scheduled work order's slot leaves ahead of its run: the working
+ * minutes between its start and end beyond the run itself
+ */
+export function getScheduledSetupMinutes(workOrder: WorkOrder, workCenter: WorkCenter): number {
+  const workingMinutes = getWorkingPieces(
+    workOrder.data.startDate,
+    workOrder.data.endDate,
+    workCenter.data.shifts,
+    getCalendarOptions(workCenter)
+  ).reduce((sum, piece) => sum + piece, 0);
+
+  return workingMinutes - getProcessingMinutes(workOrder);
+}
+
+/**
+ * Shortest piece a work order's setup and run may be split into by breaks in
+ * working time: Infinity for non-preemptive orders, else minChunkMinutes
+ * The order's settings win over its work center's; undefined when it splits freely
+ */
+export function getMinChunkMinutes(workOrder: WorkOrder, workCenter: WorkCenter): number | undefined {
+  if (workOrder.data.nonPreemptive ?? workCenter.data.nonPreemptive) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return workOrder.data.minChunkMinutes ?? workCenter.data.minChunkMinutes;
+}
+
+/**
+ * Whether reflow has to leave a work order in its slot: maintenance, firmed,
+ * in-progress (only its end may change) and completed orders
+ */
+export function isPinned(workOrder: WorkOrder): boolean {
+  const status = workOrder.data.status ?? 'PLANNED';
+  return workOrder.data.isMaintenance || status !== 'PLANNED';
+}
+
+/**
+ * Whether a work order still occupies its work center, resources and operators
+ * (completed orders do not)
+ */
+export function consumesCapacity(workOrder: WorkOrder): boolean {
+  return workOrder.data.status !== 'COMPLETE';
+}
+
+/**
+ * Working minutes of the run still to go: remainingMinutes, else the share of the
+ * run percentComplete leaves, else the whole run
+ */
+export function getRemainingMinutes(workOrder: WorkOrder): number {
+  const { remainingMinutes, percentComplete } = workOrder.data;
+  if (remainingMinutes !== undefined) {
+    return Math.max(0, remainingMinutes);
+  }
+
+  const processingMinutes = getProcessingMinutes(workOrder);
+  if (percentComplete !== undefined) {
+    const fractionLeft = 1 - Math.min(Math.max(percentComplete, 0), 100) / 100;
+    return Math.round(processingMinutes * fractionLeft);
+  }
+  return processingMinutes;
+}
+
+/**
+ * Copy of a work order moved to another work center
+ * The center it leaves stays eligible as an alternate (multiplier 1 unless it was
+ * an alternate already), so later reflows can move it back
+ */
+export function moveToWorkCenter(workOrder: WorkOrder, workCenterId: string): WorkOrder {
+  const alternates = workOrder.data.alternateWorkCenters ?? [];
+  const leaving = workOrder.data.workCenterId;
+
+  return {
+    ...workOrder,
+    data: {
+      ...workOrder.data,
+      workCenterId,
+      alternateWorkCenters: alternates.some(alternate => alternate.workCenterId === leaving)
+        ? alternates
+        : [{ workCenterId: leaving }, ...alternates]
+    }
   };
 }
@@ -21,29 +21,167 @@ export interface WorkOrderData {
   workCenterId: string;
 
   // Timing - ISO 8601 format (UTC)
+  // startDate is when the work center is first occupied (setup begins there when
+  // setupTimeMinutes is set); endDate is when the production run completes
   startDate: string;
   endDate: string;
-  durationMinutes: number;  // Total working time required
+  durationMinutes: number;  // Total working time required for the run (before any alternate's multiplier)
 
   // Constraints
   isMaintenance: boolean;   // Cannot be rescheduled if true
 
+  // Optional: shop-floor status, defaults to 'PLANNED'
+  status?: WorkOrderStatus;
+
+  // Optional: progress of an in-progress order, as working minutes still to run
+  // or as a percentage of the run; remainingMinutes wins when both are set
+  remainingMinutes?: number;
+  percentComplete?: number;  // 0-100
+
   // Dependencies - all parents must complete before this starts
   dependsOnWorkOrderIds: string[];
 
-  // Optional: setup time (bonus feature)
+  // Optional: typed dependencies, with a lag, on parent work orders
+  // A parent listed here and in dependsOnWorkOrderIds uses these entries
+  dependencies?: WorkOrderDependency[];
+
+  // Optional: setup/changeover time consumed on the work center ahead of the run
   setupTimeMinutes?: number;
+
+  // Optional: setup and run must fit in one contiguous block of working time
+  // (heat treatment, extrusion campaigns); overrides the work center's setting
+  nonPreemptive?: boolean;
+
+  // Optional: the work may split across breaks in working time, but into no piece
+  // shorter than this; overrides the work center's setting
+  minChunkMinutes?: number;
+
+  // Optional: scheduling priority, lower number wins (1 = rush); overrides the MO priority
+  priority?: number;
+
+  // Optional: the order is not released to the floor before this date (ISO 8601, UTC)
+  releaseDate?: string;
+
+  // Optional: other work centers that can run this order; reflow moves the order
+  // to whichever eligible work center finishes it first
+  alternateWorkCenters?: AlternateWorkCenter[];
+
+  // Optional: tools or fixtures (Resource docIds) held for the whole order, one unit each
+  requiredResourceIds?: string[];
+
+  // Optional: qualified operators the order needs for its whole slot
+  laborRequirements?: LaborRequirement[];
+
+  // Set by reflow: operator pools the labor requirements are drawn from
+  operatorAssignments?: OperatorAssignment[];
 }
 
 export type WorkOrder = BaseDocument<WorkOrderData>;
 
+/**
+ * Where a work order is on the shop floor:
+ * - PLANNED: free to reschedule
+ * - FIRMED: committed to its slot; reflow does not move it
+ * - IN_PROGRESS: running; stays at its actual start, only its end is recalculated
+ *   from the remaining work
+ * - COMPLETE: done; no longer takes capacity
+ */
+export type WorkOrderStatus = 'PLANNED' | 'FIRMED' | 'IN_PROGRESS' | 'COMPLETE';
+
+/**
+ * Another work center that can run a work order
+ */
+export interface AlternateWorkCenter {
+  workCenterId: string;
+  durationMultiplier?: number;  // Run time there is durationMinutes × multiplier; defaults to 1
+}
+
+/**
+ * How a dependency lag is counted: 'CALENDAR' runs on the clock (curing goes on
+ * overnight), 'WORKING' only counts shift time on the dependent's work center
+ */
+export type DependencyLagType = 'CALENDAR' | 'WORKING';
+
+/**
+ * Which dates a dependency links, parent side first:
+ * - FINISH_TO_START: the dependent starts after the parent finishes
+ * - START_TO_START: the dependent starts after the parent starts
+ * - FINISH_TO_FINISH: the dependent finishes after the parent finishes
+ * - START_TO_FINISH: the dependent finishes after the parent starts
+ */
+export type DependencyType = 'FINISH_TO_START' | 'START_TO_START' | 'FINISH_TO_FINISH' | 'START_TO_FINISH';
+
+/**
+ * A dependency on a parent work order, with an optional lag after the parent's linked date
+ */
+export interface WorkOrderDependency {
+  workOrderId: string;
+  type?: DependencyType;         // Defaults to 'FINISH_TO_START'
+  lagMinutes?: number;           // Defaults to 0
+  lagType?: DependencyLagType;   // Defaults to 'CALENDAR'
+}
+
 /**
  * Shift schedule for a work center
+ * A day may have several shifts; each one is a separate block of working time.
+ * A shift whose endHour is not after its startHour crosses midnight (e.g. 22:00-06:00);
+ * it belongs to the day it starts on and ends on the following day
  */
 export interface Shift {
-  dayOfWeek: number;  // 0-6, Sunday = 0
+  dayOfWeek: number;  // 0-6, Sunday = 0 (day the shift starts)
   startHour: number;  // 0-23
-  endHour: number;    // 0-23
+  endHour: number;    // 0-24
+  startMinute?: number;  // Optional: 0-59, added to startHour (06:30 = startHour 6, startMinute 30)
+  endMinute?: number;    // Optional: 0-59, added to endHour
+  breaks?: ShiftBreak[];  // Optional: unpaid breaks during which work pauses
+}
+
+/**
+ * Break within a shift (lunch, shift handover) - no work happens during it
+ * Hours are on the shift's start day; hours before the shift start fall on the
+ * following day of an overnight shift
+ */
+export interface ShiftBreak {
+  startHour: number;  // 0-23
+  endHour: number;    // 0-24
+  startMinute?: number;  // Optional: 0-59, added to startHour
+  endMinute?: number;    // Optional: 0-59, added to endHour
+  reason?: string;    // Optional description
+}
+
+/**
+ * Shift hours without a day of week - used where the date is already known
+ */
+export type ShiftHours = Omit<Shift, 'dayOfWeek'>;
+
+/**
+ * Calendar exception - replaces the weekly shift pattern for one local date
+ * No shifts makes the date a holiday, shorter hours make a shortened day, and
+ * shifts on a normally idle day add a one-off extra shift (e.g. Saturday overtime)
+ */
+export interface CalendarException {
+  date: string;          // YYYY-MM-DD in the calendar's time zone
+  shifts: ShiftHours[];  // Working hours for the date (empty = holiday)
+  reason?: string;       // Optional description
+}
+
+/**
+ * Plant calendar - exceptions shared by every work center that references it
+ */
+export interface PlantCalendarData {
+  name: string;
+  timeZone?: string;  // Optional: IANA time zone, used by work centers that don't set one
+  exceptions: CalendarException[];
+}
+
+export type PlantCalendar = BaseDocument<PlantCalendarData>;
+
+/**
+ * Calendar settings used by shift-aware date calculations
+ */
+export interface CalendarOptions {
+  timeZone?: string;  // IANA time zone shift hours are read in (default UTC)
+  exceptions?: CalendarException[];  // Dates whose hours replace the weekly shifts
 }
 
 /**
@@ -62,10 +200,75 @@ export interface WorkCenterData {
   name: string;
   shifts: Shift[];
   maintenanceWindows: MaintenanceWindow[];
+
+  // Optional: sequence-dependent changeover minutes, keyed by previous itemId then next itemId
+  // Falls back to the work order's setupTimeMinutes when no entry matches
+  changeoverMatrix?: Record<string, Record<string, number>>;
+
+  // Optional: IANA time zone (e.g. 'Europe/Bucharest') shift hours are expressed in
+  // Defaults to UTC; stored dates stay UTC either way
+  timeZone?: string;
+
+  // Optional: shared plant calendar (holidays, extra shifts) this work center follows
+  calendarId?: string;
+
+  // Optional: work-center-specific exceptions; these win over plant calendar entries for the same date
+  calendarExceptions?: CalendarException[];
+
+  // Optional: how many work orders can run at once (identical ovens, packing stations)
+  // Defaults to 1; maintenance windows block every unit
+  capacity?: number;
+
+  // Optional: defaults for work orders on this work center (see WorkOrderData)
+  nonPreemptive?: boolean;
+  minChunkMinutes?: number;
 }
 
 export type WorkCenter = BaseDocument<WorkCenterData>;
 
+/**
+ * Resource - a limited tool, mold, die or fixture shared across work centers
+ */
+export interface ResourceData {
+  name: string;
+  quantity?: number;  // Identical units available; defaults to 1
+}
+
+export type Resource = BaseDocument<ResourceData>;
+
+/**
+ * Operator Pool - a crew of interchangeable operators with shared skills and shift calendar
+ */
+export interface OperatorPoolData {
+  name: string;
+  headcount: number;   // Operators available at once during the pool's shifts
+  skills: string[];    // Skill tags every operator in the pool is certified for
+  shifts: Shift[];
+
+  // Optional: same meaning as on WorkCenterData
+  timeZone?: string;
+  calendarExceptions?: CalendarException[];
+}
+
+export type OperatorPool = BaseDocument<OperatorPoolData>;
+
+/**
+ * Operators with a skill that a work order needs
+ */
+export interface LaborRequirement {
+  skill: string;
+  operators: number;
+}
+
+/**
+ * Operators drawn from a pool to meet one labor requirement
+ */
+export interface OperatorAssignment {
+  operatorPoolId: string;
+  skill: string;
+  operators: number;
+}
+
 /**
  * Manufacturing Order - high-level production order
  */
@@ -74,10 +277,21 @@ export interface ManufacturingOrderData {
   itemId: string;
   quantity: number;
   dueDate: string;  // ISO 8601 format (UTC)
+  priority?: number;  // Optional: lower number wins (1 = rush), inherited by its work orders
 }
 
 export type ManufacturingOrder = BaseDocument<ManufacturingOrderData>;
 
+/**
+ * Expected delivery of material for an item
+ * Manufacturing orders for the item claim deliveries in due date order
+ */
+export interface MaterialArrival {
+  itemId: string;
+  quantity: number;
+  arrivalDate: string;  // ISO 8601 format (UTC)
+}
+
 /**
  * Input to the reflow algorithm
  */
@@ -85,6 +299,62 @@ export interface ReflowInput {
   workOrders: WorkOrder[];
   workCenters: WorkCenter[];
   manufacturingOrders: ManufacturingOrder[];
+  plantCalendars?: PlantCalendar[];  // Optional: calendars referenced by work centers
+  resources?: Resource[];            // Optional: resources required by work orders
+  operatorPools?: OperatorPool[];    // Optional: labor for work orders with labor requirements
+  materialArrivals?: MaterialArrival[];  // Optional: items without arrivals are treated as on hand
+}
+
+/**
+ * Rule used to order work orders that are ready at the same time
+ * - PRIORITY: lowest priority number first (work order, then manufacturing order)
+ * - EARLIEST_DUE_DATE: earliest manufacturing order due date first
+ * - SHORTEST_PROCESSING_TIME: shortest setup + run time first
+ * - ORIGINAL_START: earliest current start date first
+ */
+export type SequencingRule =
+  | 'PRIORITY'
+  | 'EARLIEST_DUE_DATE'
+  | 'SHORTEST_PROCESSING_TIME'
+  | 'ORIGINAL_START';
+
+/**
+ * Options controlling how the reflow algorithm behaves
+ */
+export interface ReflowOptions {
+  // Tie-break rules applied in order among work orders whose dependencies are met
+  // Defaults to ['PRIORITY']; remaining ties keep input order
+  sequencingRules?: SequencingRule[];
+
+  // Compaction: pull work orders left to their earliest feasible start instead of
+  // only pushing them later (dependencies, shifts and maintenance still apply).
+  // Ties the sequencing rules leave keep their planned order, and no order starts
+  // later than a reflow from its own start would place it.
+  compact?: boolean;
+
+  // Earliest time compaction may move work to (ISO 8601, UTC)
+  // Defaults to the earliest start date in the input schedule
+  compactFrom?: string;
+
+  // Incremental reflow: only these work orders (already edited in the input), their
+  // descendants and the orders still running at or after their start on the work
+  // centers, resources and operator pools they can use are rescheduled.
+  // Everything else stays where it is. Ignored in compaction mode.
+  changedWorkOrderIds?: string[];
+
+  // Current time (ISO 8601, UTC): nothing is placed before it, and in-progress work
+  // orders run their remaining minutes from here. Without it they resume where their
+  // completed work would end.
+  now?: string;
+
+  // Frozen horizon: planned work orders starting within this many minutes after `now`
+  // keep their slot (and work center) unless a constraint forces them later.
+  // Forced moves are reported as TIME_FENCE_VIOLATION warnings. Requires `now`.
+  frozenHorizonMinutes?: number;
+
+  // Diagnostic mode: instead of throwing when work orders cannot be placed or the
+  // schedule stays invalid, return the best partial schedule with `diagnostics`
+  diagnose?: boolean;
 }
 
 /**
@@ -99,6 +369,80 @@ export interface WorkOrderChange {
   newEndDate: string;
   delayMinutes: number;
   reason: string;
+
+  // Setup interval ahead of the run (only present when setup time was scheduled)
+  setupMinutes?: number;
+  setupStartDate?: string;
+  setupEndDate?: string;
+
+  // Disruption events this change traces back to (only present for disruption reflows)
+  causedByEventIds?: string[];
+
+  // Work centers before and after the move (only present when the order changed work center)
+  originalWorkCenterId?: string;
+  newWorkCenterId?: string;
+}
+
+/**
+ * Disruption events that can be applied to the current schedule before reflowing
+ */
+export type DisruptionEvent =
+  | WorkOrderDelayedEvent
+  | WorkCenterBreakdownEvent
+  | RushOrderAddedEvent
+  | WorkOrderCancelledEvent
+  | DurationChangedEvent;
+
+/**
+ * A work order is running late by a number of working minutes
+ */
+export interface WorkOrderDelayedEvent {
+  type: 'WORK_ORDER_DELAYED';
+  eventId: string;
+  workOrderId: string;
+  delayMinutes: number;
+}
+
+/**
+ * Unplanned machine breakdown - the work center is blocked until the estimated repair ends
+ */
+export interface WorkCenterBreakdownEvent {
+  type: 'WORK_CENTER_BREAKDOWN';
+  eventId: string;
+  workCenterId: string;
+  startDate: string;  // ISO 8601 format (UTC)
+  estimatedRepairMinutes: number;
+  reason?: string;
+}
+
+/**
+ * New rush order - work orders (and optionally their manufacturing order) to add
+ * Work orders without a priority of their own or from their MO get priority 1
+ */
+export interface RushOrderAddedEvent {
+  type: 'RUSH_ORDER_ADDED';
+  eventId: string;
+  workOrders: WorkOrder[];
+  manufacturingOrder?: ManufacturingOrder;
+}
+
+/**
+ * A work order was cancelled - it is removed along with dependencies on it
+ */
+export interface WorkOrderCancelledEvent {
+  type: 'WORK_ORDER_CANCELLED';
+  eventId: string;
+  workOrderId: string;
+}
+
+/**
+ * A work order's run duration changed
+ */
+export interface DurationChangedEvent {
+  type: 'DURATION_CHANGED';
+  eventId: string;
+  workOrderId: string;
+  durationMinutes: number;
 }
 
 /**
@@ -109,6 +453,38 @@ export interface ReflowResult {
   changes: WorkOrderChange[];
   explanation: string;
   metrics?: OptimizationMetrics;  // Optional: bonus feature
+  manufacturingOrderLateness: ManufacturingOrderLateness[];
+  warnings: ScheduleWarning[];  // Problems the reflow could not avoid but did not fail on
+  diagnostics?: ReflowDiagnostics;  // Set in diagnostic mode
+}
+
+/**
+ * What kept a diagnostic-mode reflow from producing a complete, valid schedule
+ */
+export interface ReflowDiagnostics {
+  unscheduledWorkOrders: UnscheduledWorkOrder[];  // Left at their input dates
+  validationErrors: ValidationError[];            // Still broken among the scheduled orders
+}
+
+/**
+ * A work order reflow could not place, and why
+ */
+export interface UnscheduledWorkOrder {
+  workOrderId: string;
+  workOrderNumber: string;
+  reason: string;
+}
+
+/**
+ * Projected completion of a manufacturing order against its due date
+ */
+export interface ManufacturingOrderLateness {
+  manufacturingOrderId: string;
+  manufacturingOrderNumber: string;
+  dueDate: string;
+  projectedCompletionDate: string;  // Latest end date of the MO's work orders
+  latenessMinutes: number;          // Positive if late, negative if early
+  isLate: boolean;
 }
 
 /**
@@ -118,13 +494,34 @@ export interface OptimizationMetrics {
   totalDelayMinutes: number;
   workOrdersAffected: number;
   workCenterUtilization: Record<string, number>;  // workCenterId -> utilization %
+  lateManufacturingOrderIds: string[];
+  totalLatenessMinutes: number;  // Sum of lateness across late manufacturing orders
 }
 
 /**
  * Validation error
  */
 export interface ValidationError {
-  type: 'DEPENDENCY_VIOLATION' | 'WORK_CENTER_CONFLICT' | 'SHIFT_VIOLATION' | 'MAINTENANCE_CONFLICT' | 'CIRCULAR_DEPENDENCY';
+  type:
+    | 'DEPENDENCY_VIOLATION'
+    | 'WORK_CENTER_CONFLICT'
+    | 'RESOURCE_CONFLICT'
+    | 'LABOR_CONFLICT'
+    | 'CHANGEOVER_VIOLATION'
+    | 'SHIFT_VIOLATION'
+    | 'MAINTENANCE_CONFLICT'
+    | 'CIRCULAR_DEPENDENCY';
+  message: string;
+  workOrderIds: string[];
+}
+
+/**
+ * Schedule warning - reported alongside a valid reflow result
+ * - TIME_FENCE_VIOLATION: a work order inside the frozen horizon had to move
+ * - SCHEDULED_IN_PAST: a pinned work order is still due to start before `now`
+ */
+export interface ScheduleWarning {
+  type: 'TIME_FENCE_VIOLATION' | 'SCHEDULED_IN_PAST';
   message: string;
   workOrderIds: string[];
 }
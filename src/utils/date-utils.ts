@@ -4,7 +4,395 @@
  */
 
 import { DateTime } from 'luxon';
-import { Shift, MaintenanceWindow } from '../types/common-types';
+import {
+  Shift,
+  ShiftBreak,
+  ShiftHours,
+  MaintenanceWindow,
+  CalendarOptions,
+  CalendarException
+} from '../types/common-types';
+import { IterationLimitError, ShiftConfigurationError } from '../errors/reflow-errors';
+
+/**
+ * A concrete block of working time produced by a shift (epoch milliseconds)
+ */
+interface ShiftInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Working intervals owned by one local calendar day, plus where the next day starts
+ */
+interface CalendarDay {
+  intervals: ShiftInterval[];
+  nextDayStart: number;
+}
+
+// Stop searching for working time after this many consecutive days without a shift
+const MAX_DAYS_WITHOUT_SHIFT = 100;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const DAYS_PER_WEEK = 7;
+
+const MILLIS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Format epoch milliseconds as an ISO 8601 string in UTC
+ */
+function toUtcISO(millis: number): string {
+  return DateTime.fromMillis(millis, { zone: 'utc' }).toISO()!;
+}
+
+// ISO 8601 dates ending in an explicit UTC offset, which Date.parse reads exactly
+const EXPLICIT_OFFSET = /(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Parse an ISO 8601 date to epoch milliseconds (dates without an offset are UTC)
+ */
+export function toEpochMillis(date: string): number {
+  return EXPLICIT_OFFSET.test(date)
+    ? Date.parse(date)
+    : DateTime.fromISO(date, { zone: 'utc' }).toMillis();
+}
+
+/**
+ * Wall-clock time on (or after) a local calendar day
+ * Uses calendar arithmetic so shift hours stay on local time across DST transitions
+ */
+function atMinuteOfDay(dayStart: DateTime, minuteOfDay: number): number {
+  const dayOffset = Math.floor(minuteOfDay / MINUTES_PER_DAY);
+  const minuteInDay = minuteOfDay - dayOffset * MINUTES_PER_DAY;
+
+  return dayStart
+    .plus({ days: dayOffset })
+    .set({ hour: Math.floor(minuteInDay / 60), minute: minuteInDay % 60 })
+    .toMillis();
+}
+
+/**
+ * Convert an hour plus optional minute offset to minutes since midnight
+ */
+function toMinuteOfDay(hour: number, minute: number = 0): number {
+  return hour * 60 + minute;
+}
+
+/**
+ * Get the working intervals of a single shift starting on a calendar day
+ * Overnight shifts (end not after start) end on the following day;
+ * break periods are cut out of the shift
+ */
+function getIntervalsForShift(day: DateTime, shift: ShiftHours): ShiftInterval[] {
+  const dayStart = day.startOf('day');
+  const startMinute = toMinuteOfDay(shift.startHour, shift.startMinute);
+  const endMinute = toMinuteOfDay(shift.endHour, shift.endMinute);
+  const shiftStart = atMinuteOfDay(dayStart, startMinute);
+  const shiftEnd = atMinuteOfDay(
+    dayStart,
+    endMinute > startMinute ? endMinute : endMinute + MINUTES_PER_DAY
+  );
+
+  let intervals: ShiftInterval[] = [{ start: shiftStart, end: shiftEnd }];
+
+  (shift.breaks ?? []).forEach(shiftBreak => {
+    const breakStartMinute = toMinuteOfDay(shiftBreak.startHour, shiftBreak.startMinute);
+    const breakEndMinute = toMinuteOfDay(shiftBreak.endHour, shiftBreak.endMinute);
+
+    // Break times before the shift start fall on the next day of an overnight shift
+    const breakStartOffset = breakStartMinute < startMinute
+      ? breakStartMinute + MINUTES_PER_DAY
+      : breakStartMinute;
+    const breakMinutes = breakEndMinute > breakStartMinute
+      ? breakEndMinute - breakStartMinute
+      : breakEndMinute + MINUTES_PER_DAY - breakStartMinute;
+    const breakStart = atMinuteOfDay(dayStart, breakStartOffset);
+    const breakEnd = atMinuteOfDay(dayStart, breakStartOffset + breakMinutes);
+
+    intervals = intervals.flatMap(interval => {
+      if (breakStart >= interval.end || breakEnd <= interval.start) {
+        return [interval];
+      }
+
+      const remaining: ShiftInterval[] = [];
+      if (breakStart > interval.start) {
+        remaining.push({ start: interval.start, end: breakStart });
+      }
+      if (breakEnd < interval.end) {
+        remaining.push({ start: breakEnd, end: interval.end });
+      }
+      return remaining;
+    });
+  });
+
+  return intervals;
+}
+
+/**
+ * Working minutes in a shift, excluding its breaks
+ */
+export function getShiftWorkingMinutes(shift: Shift): number {
+  const referenceDay = DateTime.fromISO('2026-01-01T00:00:00.000Z', { zone: 'utc' });
+
+  return getIntervalsForShift(referenceDay, shift).reduce(
+    (sum, interval) => sum + (interval.end - interval.start) / MILLIS_PER_MINUTE,
+    0
+  );
+}
+
+/**
+ * Get the working intervals of all shifts owned by a calendar day, in start order
+ * Overnight shifts belong to the day they start on
+ * A calendar exception for the date replaces the weekly shifts (no shifts = holiday)
+ */
+function getShiftIntervalsForDay(
+  day: DateTime,
+  shifts: Shift[],
+  exceptionsByDate: Map<string, CalendarException>
+): ShiftInterval[] {
+  const dayOfWeek = day.weekday % 7; // Luxon uses 1-7 (Mon-Sun), convert to 0-6 (Sun-Sat)
+  const exception = exceptionsByDate.get(day.toISODate()!);
+  const dayShifts: ShiftHours[] = exception
+    ? exception.shifts
+    : shifts.filter(s => s.dayOfWeek === dayOfWeek);
+
+  return dayShifts
+    .flatMap(shift => getIntervalsForShift(day, shift))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Reject shift and break times off the clock: hours 0-23 (end hours up to 24:00),
+ * minutes 0-59 and days of the week 0-6
+ */
+function validateShiftHours(hours: ShiftHours | ShiftBreak, dayOfWeek?: number): void {
+  if ('breaks' in hours) {
+    (hours.breaks ?? []).forEach(shiftBreak => validateShiftHours(shiftBreak));
+  }
+
+  const isWithin = (value: number | undefined, max: number): boolean =>
+    value === undefined || (Number.isInteger(value) && value >= 0 && value <= max);
+
+  const valid =
+    hours.startHour !== undefined &&
+    hours.endHour !== undefined &&
+    isWithin(hours.startHour, 23) &&
+    isWithin(hours.endHour, 24) &&
+    isWithin(hours.startMinute, 59) &&
+    isWithin(hours.endMinute, 59) &&
+    toMinuteOfDay(hours.endHour, hours.endMinute) <= MINUTES_PER_DAY &&
+    isWithin(dayOfWeek, 6);
+
+  if (!valid) {
+    throw new ShiftConfigurationError(
+      `Invalid shift hours in shift configuration: ${JSON.stringify({ dayOfWeek, ...hours, breaks: undefined })}`
+    );
+  }
+}
+
+/**
+ * Shift intervals of one calendar configuration, built lazily per local day and
+ * kept for later lookups, so repeated scheduling queries skip the date arithmetic
+ */
+class ShiftCalendar {
+  private days = new Map<number, CalendarDay>();
+  // Starts of the days built so far, ascending
+  private dayStarts: number[] = [];
+  private exceptionsByDate: Map<string, CalendarException>;
+
+  constructor(
+    private readonly shifts: Shift[],
+    private readonly timeZone: string,
+    exceptions: CalendarException[]
+  ) {
+    if (!DateTime.now().setZone(timeZone).isValid) {
+      throw new ShiftConfigurationError(`Invalid time zone in shift configuration: ${timeZone}`);
+    }
+    shifts.forEach(shift => validateShiftHours(shift, shift.dayOfWeek));
+    exceptions.forEach(exception => exception.shifts.forEach(shift => validateShiftHours(shift)));
+    this.exceptionsByDate = new Map(exceptions.map(exception => [exception.date, exception]));
+  }
+
+  /**
+   * Local start of the day before the one containing a time
+   * Answered from the days already built when possible
+   */
+  previousDayStart(millis: number): number {
+    const index = this.lastDayStartAtOrBefore(millis);
+    if (index > 0) {
+      const containing = this.dayStarts[index];
+      const previous = this.dayStarts[index - 1];
+      if (
+        this.days.get(containing)!.nextDayStart > millis &&
+        this.days.get(previous)!.nextDayStart === containing
+      ) {
+        return previous;
+      }
+    }
+
+    return DateTime.fromMillis(millis, { zone: this.timeZone })
+      .startOf('day')
+      .minus({ days: 1 })
+      .toMillis();
+  }
+
+  getDay(dayStart: number): CalendarDay {
+    let day = this.days.get(dayStart);
+    if (!day) {
+      const localDay = DateTime.fromMillis(dayStart, { zone: this.timeZone });
+      day = {
+        intervals: getShiftIntervalsForDay(localDay, this.shifts, this.exceptionsByDate),
+        nextDayStart: localDay.plus({ days: 1 }).toMillis()
+      };
+      this.days.set(dayStart, day);
+      this.dayStarts.splice(this.lastDayStartAtOrBefore(dayStart) + 1, 0, dayStart);
+    }
+    return day;
+  }
+
+  private lastDayStartAtOrBefore(millis: number): number {
+    let low = 0;
+    let high = this.dayStarts.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.dayStarts[mid] <= millis) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low - 1;
+  }
+}
+
+// Calendars by configuration (time zone, shifts and exceptions), shared across calls
+const shiftCalendarCache = new Map<string, ShiftCalendar>();
+const MAX_CACHED_CALENDARS = 256;
+
+/**
+ * Cached calendar for a shift configuration
+ * Keyed by value, so edits to a work center's shifts are picked up on the next call
+ */
+function getShiftCalendar(shifts: Shift[], calendar: CalendarOptions): ShiftCalendar {
+  const key = JSON.stringify([calendar.timeZone ?? 'utc', shifts, calendar.exceptions ?? []]);
+
+  let shiftCalendar = shiftCalendarCache.get(key);
+  if (!shiftCalendar) {
+    if (shiftCalendarCache.size >= MAX_CACHED_CALENDARS) {
+      shiftCalendarCache.clear();
+    }
+
+    // Build from the key's copy so later edits to the caller's objects cannot leak in
+    const [timeZone, shiftsCopy, exceptionsCopy] = JSON.parse(key);
+    shiftCalendar = new ShiftCalendar(shiftsCopy, timeZone, exceptionsCopy);
+    shiftCalendarCache.set(key, shiftCalendar);
+  }
+  return shiftCalendar;
+}
+
+/**
+ * Walk shift intervals in chronological order, starting with the one that
+ * contains the given time (or the first one after it)
+ * Shift hours are read in the calendar's time zone (UTC by default) and calendar
+ * exceptions (holidays, extra shifts, shortened days) replace the weekly pattern
+ * Begins on the previous day so an overnight shift spilling past midnight is found
+ */
+function* shiftIntervalsFrom(
+  from: number,
+  shifts: Shift[],
+  calendar: CalendarOptions
+): Generator<ShiftInterval> {
+  const shiftCalendar = getShiftCalendar(shifts, calendar);
+
+  let dayStart = shiftCalendar.previousDayStart(from);
+  let daysWithoutShift = 0;
+
+  while (daysWithoutShift < MAX_DAYS_WITHOUT_SHIFT) {
+    const day = shiftCalendar.getDay(dayStart);
+    const intervals = day.intervals.filter(interval => interval.end > from);
+    daysWithoutShift = intervals.length > 0 ? 0 : daysWithoutShift + 1;
+
+    for (const interval of intervals) {
+      yield interval;
+    }
+
+    dayStart = day.nextDayStart;
+  }
+}
+
+/**
+ * Walk contiguous blocks of working time: shift intervals that touch or overlap
+ * (back-to-back shifts) are merged, while breaks and gaps between shifts split them
+ */
+function* workingBlocksFrom(
+  from: number,
+  shifts: Shift[],
+  calendar: CalendarOptions
+): Generator<ShiftInterval> {
+  let block: ShiftInterval | undefined;
+
+  for (const interval of shiftIntervalsFrom(from, shifts, calendar)) {
+    if (block && interval.start <= block.end) {
+      block = { start: block.start, end: Math.max(block.end, interval.end) };
+      continue;
+    }
+    if (block) {
+      yield block;
+    }
+    block = interval;
+  }
+
+  if (block) {
+    yield block;
+  }
+}
+
+/**
+ * Longest contiguous block of working time within a week from a date (a weekly
+ * shift pattern repeats after that), in minutes
+ * Stops early once a block reaches enoughMinutes
+ *
+ * @param startDate - ISO 8601 date (UTC) to search from
+ * @param shifts - Work center shift schedule
+ * @param calendar - Optional calendar settings (time zone, holiday and extra-shift exceptions)
+ * @param enoughMinutes - Block length that ends the search
+ * @returns Working minutes of the longest block
+ */
+export function findLongestWorkingBlock(
+  startDate: string,
+  shifts: Shift[],
+  calendar: CalendarOptions = {},
+  enoughMinutes: number = Infinity
+): number {
+  const start = toEpochMillis(startDate);
+  const weekEnd = start + DAYS_PER_WEEK * MINUTES_PER_DAY * MILLIS_PER_MINUTE;
+  const enough = enoughMinutes * MILLIS_PER_MINUTE;
+  let longest = 0;
+  let block: ShiftInterval | undefined;
+
+  // Blocks are merged here rather than by workingBlocksFrom, which never ends a block
+  // for shifts that run around the clock
+  for (const interval of shiftIntervalsFrom(start, shifts, calendar)) {
+    if (interval.start >= weekEnd) {
+      break;
+    }
+    if (interval.end <= start) {
+      continue;
+    }
+    block = block && interval.start <= block.end
+      ? { start: block.start, end: Math.max(block.end, interval.end) }
+      : { start: Math.max(interval.start, start), end: interval.end };
+    longest = Math.max(longest, block.end - block.start);
+    if (longest >= enough) {
+      break;
+    }
+  }
+
+  return longest / MILLIS_PER_MINUTE;
+}
 
 /**
  * Calculate end date given a start date, duration, and shift schedule
@@ -13,68 +401,167 @@ import { Shift, MaintenanceWindow } from '../types/common-types';
  * @param startDate - ISO 8601 start date (UTC)
  * @param durationMinutes - Total working minutes required
  * @param shifts - Work center shift schedule
+ * @param calendar - Optional calendar settings (time zone, holiday and extra-shift exceptions)
  * @returns ISO 8601 end date (UTC)
  */
 export function calculateEndDateWithShifts(
   startDate: string,
   durationMinutes: number,
-  shifts: Shift[]
+  shifts: Shift[],
+  calendar: CalendarOptions = {}
 ): string {
-  let currentDate = DateTime.fromISO(startDate, { zone: 'utc' });
+  let currentDate = toEpochMillis(startDate);
   let remainingMinutes = durationMinutes;
 
+  if (remainingMinutes <= 0) {
+    return toUtcISO(currentDate);
+  }
+
   // Safety check for infinite loops
   let maxIterations = 1000;
   let iterations = 0;
 
-  while (remainingMinutes > 0 && iterations < maxIterations) {
+  for (const interval of shiftIntervalsFrom(currentDate, shifts, calendar)) {
     iterations++;
-
-    // Find applicable shift for current day
-    const dayOfWeek = currentDate.weekday % 7; // Luxon uses 1-7 (Mon-Sun), convert to 0-6 (Sun-Sat)
-    const shift = shifts.find(s => s.dayOfWeek === dayOfWeek);
-
-    if (!shift) {
-      // No shift today, move to next day at midnight
-      currentDate = currentDate.plus({ days: 1 }).startOf('day');
-      continue;
+    if (iterations > maxIterations) {
+      break;
     }
 
-    // Get shift boundaries for current day
-    const shiftStart = currentDate.startOf('day').plus({ hours: shift.startHour });
-    const shiftEnd = currentDate.startOf('day').plus({ hours: shift.endHour });
-
-    // If current time is before shift start, jump to shift start
-    if (currentDate < shiftStart) {
-      currentDate = shiftStart;
+    // Skip working time already consumed (overlapping shift definitions)
+    if (interval.end <= currentDate) {
       continue;
     }
 
-    // If current time is after shift end, move to next day
-    if (currentDate >= shiftEnd) {
-      currentDate = currentDate.plus({ days: 1 }).startOf('day');
-      continue;
+    // If current time is before shift start, jump to shift start
+    if (currentDate < interval.start) {
+      currentDate = interval.start;
     }
 
     // Calculate available minutes in current shift
-    const availableMinutes = shiftEnd.diff(currentDate, 'minutes').minutes;
+    const availableMinutes = (interval.end - currentDate) / MILLIS_PER_MINUTE;
 
     if (availableMinutes >= remainingMinutes) {
       // Can finish within this shift
-      currentDate = currentDate.plus({ minutes: remainingMinutes });
-      remainingMinutes = 0;
-    } else {
-      // Use all available time in this shift, continue in next shift
-      remainingMinutes -= availableMinutes;
-      currentDate = currentDate.plus({ days: 1 }).startOf('day');
+      return toUtcISO(currentDate + remainingMinutes * MILLIS_PER_MINUTE);
+    }
+
+    // Use all available time in this shift, continue in next shift
+    remainingMinutes -= availableMinutes;
+    currentDate = interval.end;
+  }
+
+  // Shift intervals ran out: the calendar has no more working time
+  if (iterations <= maxIterations) {
+    throw new ShiftConfigurationError('Could not find working time for the work - check shift configuration');
+  }
+  throw new IterationLimitError('Shift calculation exceeded maximum iterations - possible infinite loop');
+}
+
+/**
+ * Find the earliest start at or after a date from which work splits into no piece
+ * shorter than minChunkMinutes across breaks in working time
+ * A minimum of at least the whole duration keeps the work in one contiguous block
+ *
+ * @param startDate - ISO 8601 date (UTC) to search from
+ * @param durationMinutes - Total working minutes required
+ * @param minChunkMinutes - Shortest allowed piece of work
+ * @param shifts - Work center shift schedule
+ * @param calendar - Optional calendar settings (time zone, holiday and extra-shift exceptions)
+ * @returns ISO 8601 start date (UTC), at a working time
+ */
+export function findStartForMinChunk(
+  startDate: string,
+  durationMinutes: number,
+  minChunkMinutes: number,
+  shifts: Shift[],
+  calendar: CalendarOptions = {}
+): string {
+  const duration = durationMinutes * MILLIS_PER_MINUTE;
+  const minChunkOrDuration = Math.min(minChunkMinutes, durationMinutes);
+  const minChunk = minChunkOrDuration * MILLIS_PER_MINUTE;
+  let start = toEpochMillis(startDate);
+
+  // No start can help when no block of working time is long enough for a piece
+  const longestBlockMinutes = findLongestWorkingBlock(startDate, shifts, calendar, minChunkOrDuration);
+  if (longestBlockMinutes < minChunkOrDuration) {
+    throw new ShiftConfigurationError(
+      `Work needs ${minChunkOrDuration} minutes of unbroken working time, but the longest block of working time is ${longestBlockMinutes} minutes`
+    );
+  }
+
+  // Each attempt either succeeds or moves the start later
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    let remaining = duration;
+    let firstPieceStart: number | undefined;
+    let retryFrom: number | undefined;
+
+    for (const block of workingBlocksFrom(start, shifts, calendar)) {
+      const pieceStart = Math.max(block.start, start);
+      if (block.end <= pieceStart) {
+        continue;
+      }
+      firstPieceStart = firstPieceStart ?? pieceStart;
+
+      const length = Math.min(remaining, block.end - pieceStart);
+      remaining -= length;
+
+      if (remaining <= 0) {
+        // A short last piece grows by starting later, which shortens the first one
+        if (pieceStart !== firstPieceStart && length < minChunk) {
+          retryFrom = firstPieceStart + (minChunk - length);
+        }
+        break;
+      }
+
+      // A short first or middle piece: no start before this block's end can avoid it
+      if (length < minChunk) {
+        retryFrom = block.end;
+        break;
+      }
+    }
+
+    if (firstPieceStart === undefined || (remaining > 0 && retryFrom === undefined)) {
+      throw new ShiftConfigurationError('Could not find working time for the work - check shift configuration');
+    }
+    if (retryFrom === undefined) {
+      return toUtcISO(firstPieceStart);
     }
+    start = retryFrom;
   }
 
-  if (iterations >= maxIterations) {
-    throw new Error('Shift calculation exceeded maximum iterations - possible infinite loop');
+  throw new IterationLimitError('Shift calculation exceeded maximum iterations - possible infinite loop');
+}
+
+/**
+ * Lengths of the contiguous pieces of working time within a range
+ *
+ * @param startDate - ISO 8601 start date (UTC)
+ * @param endDate - ISO 8601 end date (UTC)
+ * @param shifts - Work center shift schedule
+ * @param calendar - Optional calendar settings (time zone, holiday and extra-shift exceptions)
+ * @returns Working minutes of each piece, in order
+ */
+export function getWorkingPieces(
+  startDate: string,
+  endDate: string,
+  shifts: Shift[],
+  calendar: CalendarOptions = {}
+): number[] {
+  const start = toEpochMillis(startDate);
+  const end = toEpochMillis(endDate);
+  const pieces: number[] = [];
+
+  for (const block of workingBlocksFrom(start, shifts, calendar)) {
+    if (block.start >= end) {
+      break;
+    }
+    const length = Math.min(block.end, end) - Math.max(block.start, start);
+    if (length > 0) {
+      pieces.push(length / MILLIS_PER_MINUTE);
+    }
   }
 
-  return currentDate.toISO()!;
+  return pieces;
 }
 
 /**
@@ -90,12 +577,12 @@ export function overlapsWithMaintenance(
   endDate: string,
   maintenanceWindows: MaintenanceWindow[]
 ): boolean {
-  const start = DateTime.fromISO(startDate, { zone: 'utc' });
-  const end = DateTime.fromISO(endDate, { zone: 'utc' });
+  const start = toEpochMillis(startDate);
+  const end = toEpochMillis(endDate);
 
   return maintenanceWindows.some(window => {
-    const windowStart = DateTime.fromISO(window.startDate, { zone: 'utc' });
-    const windowEnd = DateTime.fromISO(window.endDate, { zone: 'utc' });
+    const windowStart = toEpochMillis(window.startDate);
+    const windowEnd = toEpochMillis(window.endDate);
 
     // Check for any overlap: (start < windowEnd) AND (end > windowStart)
     return start < windowEnd && end > windowStart;
@@ -117,48 +604,107 @@ export function timeRangesOverlap(
   start2: string,
   end2: string
 ): boolean {
-  const s1 = DateTime.fromISO(start1, { zone: 'utc' });
-  const e1 = DateTime.fromISO(end1, { zone: 'utc' });
-  const s2 = DateTime.fromISO(start2, { zone: 'utc' });
-  const e2 = DateTime.fromISO(end2, { zone: 'utc' });
+  const s1 = toEpochMillis(start1);
+  const e1 = toEpochMillis(end1);
+  const s2 = toEpochMillis(start2);
+  const e2 = toEpochMillis(end2);
 
   // Overlap exists if: (start1 < end2) AND (end1 > start2)
   return s1 < e2 && e1 > s2;
 }
 
 /**
- * Find the next available shift start time after a given date
+ * Find the next available shift start time at or after a given date
  *
  * @param date - ISO 8601 date (UTC)
  * @param shifts - Work center shift schedule
+ * @param calendar - Optional calendar settings (time zone, holiday and extra-shift exceptions)
  * @returns ISO 8601 date of next shift start (UTC)
  */
-export function findNextShiftStart(date: string, shifts: Shift[]): string {
-  let currentDate = DateTime.fromISO(date, { zone: 'utc' });
+export function findNextShiftStart(
+  date: string,
+  shifts: Shift[],
+  calendar: CalendarOptions = {}
+): string {
+  const currentDate = toEpochMillis(date);
 
-  // Safety check
-  let maxIterations = 100;
-  let iterations = 0;
+  for (const interval of shiftIntervalsFrom(currentDate, shifts, calendar)) {
+    if (currentDate <= interval.start) {
+      return toUtcISO(interval.start);
+    }
+  }
 
-  while (iterations < maxIterations) {
-    iterations++;
+  throw new ShiftConfigurationError('Could not find next shift start - check shift configuration');
+}
 
-    const dayOfWeek = currentDate.weekday % 7;
-    const shift = shifts.find(s => s.dayOfWeek === dayOfWeek);
+/**
+ * Find the earliest working time at or after a given date
+ * Returns the date itself when it falls within shift hours, otherwise the next shift start
+ *
+ * @param date - ISO 8601 date (UTC)
+ * @param shifts - Work center shift schedule
+ * @param calendar - Optional calendar settings (time zone, holiday and extra-shift exceptions)
+ * @returns ISO 8601 date (UTC)
+ */
+export function findNextWorkingTime(
+  date: string,
+  shifts: Shift[],
+  calendar: CalendarOptions = {}
+): string {
+  const currentDate = toEpochMillis(date);
 
-    if (shift) {
-      const shiftStart = currentDate.startOf('day').plus({ hours: shift.startHour });
+  for (const interval of shiftIntervalsFrom(currentDate, shifts, calendar)) {
+    return interval.start <= currentDate ? date : toUtcISO(interval.start);
+  }
 
-      if (currentDate <= shiftStart) {
-        return shiftStart.toISO()!;
-      }
+  throw new ShiftConfigurationError('Could not find next shift start - check shift configuration');
+}
+
+/**
+ * Find the first moment in a range when one shift schedule is working but a
+ * covering schedule is not (e.g. a machine running without its crew on shift)
+ *
+ * @param startDate - ISO 8601 start date (UTC)
+ * @param endDate - ISO 8601 end date (UTC)
+ * @param shifts - Shift schedule that must be covered
+ * @param calendar - Calendar settings for those shifts
+ * @param coverShifts - Covering shift schedule
+ * @param coverCalendar - Calendar settings for the covering shifts
+ * @returns ISO 8601 date (UTC) of the first uncovered working time, or undefined if fully covered
+ */
+export function findUncoveredWorkingTime(
+  startDate: string,
+  endDate: string,
+  shifts: Shift[],
+  calendar: CalendarOptions,
+  coverShifts: Shift[],
+  coverCalendar: CalendarOptions
+): string | undefined {
+  const start = toEpochMillis(startDate);
+  const end = toEpochMillis(endDate);
+  const coverIntervals = shiftIntervalsFrom(start, coverShifts, coverCalendar);
+  let cover = coverIntervals.next();
+
+  for (const interval of shiftIntervalsFrom(start, shifts, calendar)) {
+    if (interval.start >= end) {
+      break;
     }
 
-    // Move to next day
-    currentDate = currentDate.plus({ days: 1 }).startOf('day');
+    let time = Math.max(interval.start, start);
+    const intervalEnd = Math.min(interval.end, end);
+
+    while (time < intervalEnd) {
+      while (!cover.done && cover.value.end <= time) {
+        cover = coverIntervals.next();
+      }
+      if (cover.done || cover.value.start > time) {
+        return toUtcISO(time);
+      }
+      time = cover.value.end;
+    }
   }
 
-  throw new Error('Could not find next shift start - check shift configuration');
+  return undefined;
 }
 
 /**
@@ -180,20 +726,19 @@ export function calculateDelayMinutes(originalDate: string, newDate: string): nu
  *
  * @param date - ISO 8601 date (UTC)
  * @param shifts - Work center shift schedule
+ * @param calendar - Optional calendar settings (time zone, holiday and extra-shift exceptions)
  * @returns true if date is within shift hours
  */
-export function isWithinShiftHours(date: string, shifts: Shift[]): boolean {
-  const dt = DateTime.fromISO(date, { zone: 'utc' });
-  const dayOfWeek = dt.weekday % 7;
-  const shift = shifts.find(s => s.dayOfWeek === dayOfWeek);
-
-  if (!shift) return false;
+export function isWithinShiftHours(
+  date: string,
+  shifts: Shift[],
+  calendar: CalendarOptions = {}
+): boolean {
+  const dt = toEpochMillis(date);
 
-  const hour = dt.hour;
-  const minute = dt.minute;
-  const currentMinutes = hour * 60 + minute;
-  const shiftStartMinutes = shift.startHour * 60;
-  const shiftEndMinutes = shift.endHour * 60;
+  for (const interval of shiftIntervalsFrom(dt, shifts, calendar)) {
+    return interval.start <= dt;
+  }
 
-  return currentMinutes >= shiftStartMinutes && currentMinutes < shiftEndMinutes;
+  return false;
 }
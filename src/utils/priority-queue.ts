@@ -0,0 +1,69 @@
+/**
+ * Binary-heap priority queue
+ * Items that compare equal are dequeued in insertion order (stable)
+ */
+
+export class PriorityQueue<T> {
+  private heap: Array<{ item: T; sequence: number }> = [];
+  private nextSequence = 0;
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(item: T): void {
+    this.heap.push({ item, sequence: this.nextSequence++ });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  pop(): T | undefined {
+    if (this.heap.length === 0) return undefined;
+
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+
+    return top.item;
+  }
+
+  private isBefore(i: number, j: number): boolean {
+    const order = this.compare(this.heap[i].item, this.heap[j].item);
+    return order < 0 || (order === 0 && this.heap[i].sequence < this.heap[j].sequence);
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = Math.floor((index - 1) / 2);
+      if (!this.isBefore(index, parent)) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+
+    while (true) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.isBefore(left, smallest)) smallest = left;
+      if (right < length && this.isBefore(right, smallest)) smallest = right;
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
+  }
+}
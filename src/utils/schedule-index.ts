@@ -0,0 +1,406 @@
+/**
+ * Schedule index - docId lookup plus a sorted timeline per work center, per
+ * required resource and per operator pool
+ * Timelines keep placed work orders ordered by start, so overlap and predecessor
+ * queries only scan the window around the query instead of every order
+ */
+
+import { WorkOrder } from '../types/common-types';
+import { toEpochMillis } from './date-utils';
+
+interface TimelineEntry {
+  start: number;  // epoch milliseconds
+  end: number;
+  units: number;  // Capacity the work order takes (operators for pool timelines, otherwise 1)
+  workOrder: WorkOrder;
+}
+
+class Timeline {
+  private entries: TimelineEntry[] = [];
+  // Longest placed interval - bounds how far back an overlapping entry can start
+  private maxDuration = 0;
+
+  insert(workOrder: WorkOrder, units: number = 1): void {
+    const entry = {
+      start: toEpochMillis(workOrder.data.startDate),
+      end: toEpochMillis(workOrder.data.endDate),
+      units,
+      workOrder
+    };
+
+    // Equal starts keep placement order
+    this.entries.splice(this.firstStartAfter(entry.start), 0, entry);
+    this.maxDuration = Math.max(this.maxDuration, entry.end - entry.start);
+  }
+
+  findOverlapping(start: number, end: number): TimelineEntry[] {
+    const overlapping: TimelineEntry[] = [];
+
+    for (let i = this.firstStartAtOrAfter(start - this.maxDuration); i < this.entries.length; i++) {
+      const entry = this.entries[i];
+      if (entry.start >= end) break;
+      if (entry.end > start) {
+        overlapping.push(entry);
+      }
+    }
+
+    return overlapping;
+  }
+
+  findLatestEndingBy(time: number, include: (wo: WorkOrder) => boolean): WorkOrder | undefined {
+    let latest: TimelineEntry | undefined;
+
+    // Walk back from the last entry starting by `time`; entries starting more than
+    // maxDuration before the best end found so far cannot end later than it
+    for (let i = this.firstStartAfter(time) - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (latest && entry.start < latest.end - this.maxDuration) break;
+      if (entry.end <= time && (!latest || entry.end > latest.end) && include(entry.workOrder)) {
+        latest = entry;
+      }
+    }
+
+    return latest?.workOrder;
+  }
+
+  findEarliestStartingFrom(time: number, include: (wo: WorkOrder) => boolean): WorkOrder | undefined {
+    for (let i = this.firstStartAtOrAfter(time); i < this.entries.length; i++) {
+      if (include(this.entries[i].workOrder)) {
+        return this.entries[i].workOrder;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Work order whose end first leaves a unit free at or after `time` when all
+   * `capacity` units are taken then; undefined when a unit is free at `time`
+   * Walks a run of back-to-back or overlapping entries in one pass
+   */
+  findBusyUntil(time: number, capacity: number): WorkOrder | undefined {
+    let free = time;
+    let freedBy: TimelineEntry | undefined;
+    let running: TimelineEntry[] = [];
+    let i = this.firstStartAtOrAfter(time - this.maxDuration);
+
+    for (;;) {
+      for (; i < this.entries.length && this.entries[i].start <= free; i++) {
+        running.push(this.entries[i]);
+      }
+      running = running.filter(entry => entry.end > free);
+
+      const load = running.reduce((sum, entry) => sum + entry.units, 0);
+      if (load < capacity || running.length === 0) {
+        return freedBy?.workOrder;
+      }
+
+      freedBy = running.reduce((first, entry) => (entry.end < first.end ? entry : first));
+      free = freedBy.end;
+    }
+  }
+
+  /**
+   * Most units taken at the same time within a range
+   */
+  findPeakLoad(start: number, end: number, excludeWorkOrderId?: string): number {
+    // Sweep start/end points; ends sort before starts at the same time (touching orders don't overlap)
+    const points = this.findOverlapping(start, end)
+      .filter(entry => entry.workOrder.docId !== excludeWorkOrderId)
+      .flatMap(entry => [
+        { time: Math.max(entry.start, start), delta: entry.units },
+        { time: entry.end, delta: -entry.units }
+      ])
+      .sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+    let load = 0;
+    let peak = 0;
+    points.forEach(point => {
+      load += point.delta;
+      peak = Math.max(peak, load);
+    });
+
+    return peak;
+  }
+
+  /**
+   * Work orders running when each entry starts, for every entry whose units push
+   * the running total past `capacity`; the starting entry comes last
+   */
+  findOverloads(capacity: number): WorkOrder[][] {
+    const overloads: WorkOrder[][] = [];
+    let running: TimelineEntry[] = [];
+
+    this.entries.forEach(entry => {
+      running = running.filter(other => other.end > entry.start);
+      const load = running.reduce((sum, other) => sum + other.units, entry.units);
+      if (load > capacity) {
+        overloads.push([...running, entry].map(e => e.workOrder));
+      }
+      running.push(entry);
+    });
+
+    return overloads;
+  }
+
+  private firstStartAtOrAfter(time: number): number {
+    return this.search(entry => entry.start >= time);
+  }
+
+  private firstStartAfter(time: number): number {
+    return this.search(entry => entry.start > time);
+  }
+
+  // Binary search for the first entry matching a predicate that is monotonic over the timeline
+  private search(matches: (entry: TimelineEntry) => boolean): number {
+    let low = 0;
+    let high = this.entries.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (matches(this.entries[mid])) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+
+    return low;
+  }
+}
+
+export class ScheduleIndex {
+  private workOrderMap: Map<string, WorkOrder>;
+  private timelines = new Map<string, Timeline>();
+  private resourceTimelines = new Map<string, Timeline>();
+  private operatorPoolTimelines = new Map<string, Timeline>();
+
+  /**
+   * Index work orders by docId; timelines start empty until orders are placed
+   */
+  constructor(workOrders: WorkOrder[]) {
+    this.workOrderMap = new Map(workOrders.map(wo => [wo.docId, wo]));
+  }
+
+  /**
+   * Index with every work order already placed on its timeline
+   */
+  static placeAll(workOrders: WorkOrder[]): ScheduleIndex {
+    const index = new ScheduleIndex(workOrders);
+    workOrders.forEach(wo => index.place(wo));
+    return index;
+  }
+
+  get(workOrderId: string): WorkOrder | undefined {
+    return this.workOrderMap.get(workOrderId);
+  }
+
+  /**
+   * Place a work order on its work center's timeline, on the timeline of each
+   * resource it requires and on each operator pool it draws from, at its current dates
+   * Its dates must not change afterwards
+   */
+  place(workOrder: WorkOrder): void {
+    const insert = (timelines: Map<string, Timeline>, key: string, units?: number): void => {
+      let timeline = timelines.get(key);
+      if (!timeline) {
+        timeline = new Timeline();
+        timelines.set(key, timeline);
+      }
+      timeline.insert(workOrder, units);
+    };
+
+    insert(this.timelines, workOrder.data.workCenterId);
+    (workOrder.data.requiredResourceIds ?? []).forEach(resourceId => insert(this.resourceTimelines, resourceId));
+
+    const operatorsByPool = new Map<string, number>();
+    (workOrder.data.operatorAssignments ?? []).forEach(({ operatorPoolId, operators }) =>
+      operatorsByPool.set(operatorPoolId, (operatorsByPool.get(operatorPoolId) ?? 0) + operators)
+    );
+    operatorsByPool.forEach((operators, operatorPoolId) =>
+      insert(this.operatorPoolTimelines, operatorPoolId, operators)
+    );
+  }
+
+  /**
+   * Placed work orders on a work center that overlap a time range
+   */
+  findOverlapping(
+    workCenterId: string,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): WorkOrder[] {
+    return this.overlappingOn(this.timelines.get(workCenterId), startDate, endDate, excludeWorkOrderId);
+  }
+
+  /**
+   * Most placed work orders running at the same time on a work center within a time range
+   */
+  findPeakLoad(
+    workCenterId: string,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): number {
+    return this.peakLoadOn(this.timelines.get(workCenterId), startDate, endDate, excludeWorkOrderId);
+  }
+
+  /**
+   * Earliest time at or after a date when a work center has a unit free
+   * (capacity 1 unless given), skipping whole runs of back-to-back placed orders
+   */
+  findNextFree(workCenterId: string, date: string, capacity: number = 1): string {
+    return this.timelines.get(workCenterId)?.findBusyUntil(toEpochMillis(date), capacity)?.data.endDate ?? date;
+  }
+
+  /**
+   * Placed work orders holding a resource during a time range
+   */
+  findResourceOverlapping(
+    resourceId: string,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): WorkOrder[] {
+    return this.overlappingOn(this.resourceTimelines.get(resourceId), startDate, endDate, excludeWorkOrderId);
+  }
+
+  /**
+   * Most placed work orders holding a resource at the same time within a time range
+   */
+  findResourcePeakLoad(
+    resourceId: string,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): number {
+    return this.peakLoadOn(this.resourceTimelines.get(resourceId), startDate, endDate, excludeWorkOrderId);
+  }
+
+  /**
+   * Placed work orders drawing operators from a pool during a time range
+   */
+  findOperatorPoolOverlapping(
+    operatorPoolId: string,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): WorkOrder[] {
+    return this.overlappingOn(
+      this.operatorPoolTimelines.get(operatorPoolId),
+      startDate,
+      endDate,
+      excludeWorkOrderId
+    );
+  }
+
+  /**
+   * Most operators placed work orders draw from a pool at the same time within a time range
+   */
+  findOperatorPoolPeakLoad(
+    operatorPoolId: string,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): number {
+    return this.peakLoadOn(
+      this.operatorPoolTimelines.get(operatorPoolId),
+      startDate,
+      endDate,
+      excludeWorkOrderId
+    );
+  }
+
+  /**
+   * Placed work order on a work center with the latest end at or before a time
+   */
+  findPrevious(
+    workCenterId: string,
+    date: string,
+    include: (workOrder: WorkOrder) => boolean = () => true
+  ): WorkOrder | undefined {
+    return this.timelines.get(workCenterId)?.findLatestEndingBy(toEpochMillis(date), include);
+  }
+
+  /**
+   * Placed work order on a work center with the earliest start at or after a time
+   */
+  findNext(
+    workCenterId: string,
+    date: string,
+    include: (workOrder: WorkOrder) => boolean = () => true
+  ): WorkOrder | undefined {
+    return this.timelines.get(workCenterId)?.findEarliestStartingFrom(toEpochMillis(date), include);
+  }
+
+  /**
+   * Placed work orders that run more at once than their work center's capacity
+   * (1 unless given), reported when each extra order starts
+   */
+  findConflicts(
+    capacityOf: (workCenterId: string) => number = () => 1
+  ): Array<{ workCenterId: string; workOrders: WorkOrder[] }> {
+    return this.overloadsOn(this.timelines, capacityOf).map(([workCenterId, workOrders]) => ({
+      workCenterId,
+      workOrders
+    }));
+  }
+
+  /**
+   * Placed work orders that hold more units of a resource at once than it has
+   * (1 unless given), reported when each extra order starts
+   */
+  findResourceConflicts(
+    quantityOf: (resourceId: string) => number = () => 1
+  ): Array<{ resourceId: string; workOrders: WorkOrder[] }> {
+    return this.overloadsOn(this.resourceTimelines, quantityOf).map(([resourceId, workOrders]) => ({
+      resourceId,
+      workOrders
+    }));
+  }
+
+  /**
+   * Placed work orders that draw more operators from a pool at once than its
+   * headcount, reported when each extra order starts
+   */
+  findOperatorPoolConflicts(
+    headcountOf: (operatorPoolId: string) => number
+  ): Array<{ operatorPoolId: string; workOrders: WorkOrder[] }> {
+    return this.overloadsOn(this.operatorPoolTimelines, headcountOf).map(([operatorPoolId, workOrders]) => ({
+      operatorPoolId,
+      workOrders
+    }));
+  }
+
+  private overlappingOn(
+    timeline: Timeline | undefined,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): WorkOrder[] {
+    if (!timeline) return [];
+
+    return timeline
+      .findOverlapping(toEpochMillis(startDate), toEpochMillis(endDate))
+      .map(entry => entry.workOrder)
+      .filter(wo => wo.docId !== excludeWorkOrderId);
+  }
+
+  private peakLoadOn(
+    timeline: Timeline | undefined,
+    startDate: string,
+    endDate: string,
+    excludeWorkOrderId?: string
+  ): number {
+    return timeline?.findPeakLoad(toEpochMillis(startDate), toEpochMillis(endDate), excludeWorkOrderId) ?? 0;
+  }
+
+  private overloadsOn(
+    timelines: Map<string, Timeline>,
+    capacityOf: (key: string) => number
+  ): Array<[string, WorkOrder[]]> {
+    return [...timelines].flatMap(([key, timeline]) =>
+      timeline.findOverloads(capacityOf(key)).map((workOrders): [string, WorkOrder[]] => [key, workOrders])
+    );
+  }
+}
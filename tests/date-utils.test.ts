@@ -7,10 +7,17 @@ import {
   overlapsWithMaintenance,
   timeRangesOverlap,
   findNextShiftStart,
+  findNextWorkingTime,
   calculateDelayMinutes,
-  isWithinShiftHours
+  isWithinShiftHours,
+  getShiftWorkingMinutes,
+  findUncoveredWorkingTime,
+  findLongestWorkingBlock,
+  findStartForMinChunk,
+  getWorkingPieces
 } from '../src/utils/date-utils';
 import { Shift, MaintenanceWindow } from '../src/types/common-types';
+import { ShiftConfigurationError } from '../src/errors/reflow-errors';
 
 describe('Date Utils', () => {
   const standardShifts: Shift[] = [
@@ -51,6 +58,22 @@ describe('Date Utils', () => {
       const end = calculateEndDateWithShifts(start, duration, standardShifts);
       expect(end).toBe('2026-02-10T17:00:00.000Z');
     });
+
+    it('should reject a calendar without working time', () => {
+      expect(() => calculateEndDateWithShifts('2026-02-10T08:00:00.000Z', 60, []))
+        .toThrow(ShiftConfigurationError);
+    });
+
+    it('should reject shift hours off the clock', () => {
+      const start = '2026-02-10T08:00:00.000Z';
+      expect(() => calculateEndDateWithShifts(start, 60, [{ dayOfWeek: 2, startHour: 25, endHour: 26 }]))
+        .toThrow('Invalid shift hours in shift configuration: {"dayOfWeek":2,"startHour":25,"endHour":26}');
+      expect(() => calculateEndDateWithShifts(start, 60, [{ dayOfWeek: 7, startHour: 8, endHour: 17 }]))
+        .toThrow(ShiftConfigurationError);
+      expect(() => calculateEndDateWithShifts(start, 60, [
+        { dayOfWeek: 2, startHour: 8, endHour: 17, breaks: [{ startHour: 12, startMinute: 60, endHour: 13 }] }
+      ])).toThrow(ShiftConfigurationError);
+    });
   });
 
   describe('overlapsWithMaintenance', () => {
@@ -179,4 +202,229 @@ describe('Date Utils', () => {
       expect(result).toBe(false);
     });
   });
+  describe('overnight shifts', () => {
+    // 22:00-06:00 night shift starting Monday through Friday evenings
+    const nightShifts: Shift[] = [1, 2, 3, 4, 5].map(dayOfWeek => ({
+      dayOfWeek,
+      startHour: 22,
+      endHour: 6
+    }));
+
+    it('should keep working across midnight', () => {
+      const end = calculateEndDateWithShifts('2026-02-10T23:00:00.000Z', 240, nightShifts);
+      expect(end).toBe('2026-02-11T03:00:00.000Z');
+    });
+
+    it('should resume in the next night shift after the morning end', () => {
+      // 04:00 Tuesday belongs to Monday's night shift: 2 hours left, then Tuesday 22:00
+      const end = calculateEndDateWithShifts('2026-02-10T04:00:00.000Z', 180, nightShifts);
+      expect(end).toBe('2026-02-10T23:00:00.000Z');
+    });
+
+    it('should treat the Saturday morning tail of the Friday shift as working time', () => {
+      expect(isWithinShiftHours('2026-02-14T03:00:00.000Z', nightShifts)).toBe(true);
+      expect(isWithinShiftHours('2026-02-15T03:00:00.000Z', nightShifts)).toBe(false);
+
+      // 1 hour Saturday morning, then resume Monday 22:00
+      const end = calculateEndDateWithShifts('2026-02-14T05:00:00.000Z', 120, nightShifts);
+      expect(end).toBe('2026-02-16T23:00:00.000Z');
+    });
+
+    it('should find the next night shift start', () => {
+      expect(findNextShiftStart('2026-02-10T12:00:00.000Z', nightShifts)).toBe('2026-02-10T22:00:00.000Z');
+      expect(findNextWorkingTime('2026-02-11T01:00:00.000Z', nightShifts)).toBe('2026-02-11T01:00:00.000Z');
+      expect(findNextWorkingTime('2026-02-11T07:00:00.000Z', nightShifts)).toBe('2026-02-11T22:00:00.000Z');
+    });
+  });
+  describe('multiple shifts and breaks', () => {
+    // Early shift 06:00-14:00 with a 10:00-10:30 break, late shift 15:00-23:00 on Tuesdays
+    const twoShiftDay: Shift[] = [
+      { dayOfWeek: 2, startHour: 6, endHour: 14, breaks: [{ startHour: 10, endHour: 10, endMinute: 30 }] },
+      { dayOfWeek: 2, startHour: 15, endHour: 23 },
+      { dayOfWeek: 3, startHour: 6, endHour: 14 }
+    ];
+
+    it('should pause work during a break', () => {
+      // 09:00 + 120 minutes with a 30 minute break at 10:00
+      const end = calculateEndDateWithShifts('2026-02-10T09:00:00.000Z', 120, twoShiftDay);
+      expect(end).toBe('2026-02-10T11:30:00.000Z');
+    });
+
+    it('should continue in the second shift of the same day', () => {
+      // 13:00 + 120 minutes: 60 in the early shift, 60 in the late shift
+      const end = calculateEndDateWithShifts('2026-02-10T13:00:00.000Z', 120, twoShiftDay);
+      expect(end).toBe('2026-02-10T16:00:00.000Z');
+    });
+
+    it('should treat breaks and gaps between shifts as non-working time', () => {
+      expect(isWithinShiftHours('2026-02-10T10:15:00.000Z', twoShiftDay)).toBe(false);
+      expect(isWithinShiftHours('2026-02-10T14:30:00.000Z', twoShiftDay)).toBe(false);
+      expect(isWithinShiftHours('2026-02-10T20:00:00.000Z', twoShiftDay)).toBe(true);
+      expect(findNextWorkingTime('2026-02-10T10:15:00.000Z', twoShiftDay)).toBe('2026-02-10T10:30:00.000Z');
+      expect(findNextShiftStart('2026-02-10T14:30:00.000Z', twoShiftDay)).toBe('2026-02-10T15:00:00.000Z');
+    });
+
+    it('should exclude breaks from shift working minutes', () => {
+      expect(getShiftWorkingMinutes(twoShiftDay[0])).toBe(450);
+      expect(getShiftWorkingMinutes({ dayOfWeek: 1, startHour: 22, endHour: 6, breaks: [{ startHour: 2, endHour: 3 }] })).toBe(420);
+    });
+  });
+  describe('minute-precision shifts', () => {
+    // 06:30-14:45 on Tuesday with a 12:00-12:20 break
+    const preciseShifts: Shift[] = [
+      {
+        dayOfWeek: 2,
+        startHour: 6,
+        startMinute: 30,
+        endHour: 14,
+        endMinute: 45,
+        breaks: [{ startHour: 12, endHour: 12, endMinute: 20 }]
+      },
+      { dayOfWeek: 3, startHour: 6, startMinute: 30, endHour: 14, endMinute: 45 }
+    ];
+
+    it('should start and end work on minute boundaries', () => {
+      expect(findNextShiftStart('2026-02-10T06:00:00.000Z', preciseShifts)).toBe('2026-02-10T06:30:00.000Z');
+      expect(isWithinShiftHours('2026-02-10T14:40:00.000Z', preciseShifts)).toBe(true);
+      expect(isWithinShiftHours('2026-02-10T14:45:00.000Z', preciseShifts)).toBe(false);
+
+      // 14:00 + 60 minutes: 45 on Tuesday, 15 from Wednesday 06:30
+      const end = calculateEndDateWithShifts('2026-02-10T14:00:00.000Z', 60, preciseShifts);
+      expect(end).toBe('2026-02-11T06:45:00.000Z');
+    });
+
+    it('should count shift working minutes at minute precision', () => {
+      expect(getShiftWorkingMinutes(preciseShifts[0])).toBe(475);
+      expect(getShiftWorkingMinutes({ dayOfWeek: 1, startHour: 8, endHour: 17 })).toBe(540);
+    });
+  });
+  describe('work center time zones', () => {
+    const bucharest = { timeZone: 'Europe/Bucharest' };
+
+    it('should read shift hours in local time across the year', () => {
+      // 08:00 in Bucharest is 06:00 UTC in winter (UTC+2) and 05:00 UTC in summer (UTC+3)
+      expect(findNextShiftStart('2026-02-10T00:00:00.000Z', standardShifts, bucharest))
+        .toBe('2026-02-10T06:00:00.000Z');
+      expect(findNextShiftStart('2026-04-07T00:00:00.000Z', standardShifts, bucharest))
+        .toBe('2026-04-07T05:00:00.000Z');
+      expect(isWithinShiftHours('2026-02-10T15:30:00.000Z', standardShifts, bucharest)).toBe(false);
+      expect(calculateEndDateWithShifts('2026-02-10T14:00:00.000Z', 120, standardShifts, bucharest))
+        .toBe('2026-02-11T07:00:00.000Z');
+    });
+
+    it('should count real working minutes on a DST transition night', () => {
+      // Saturday 22:00-06:00 local shift over the 2026-03-29 spring-forward is only 7 hours long
+      const saturdayNight: Shift[] = [{ dayOfWeek: 6, startHour: 22, endHour: 6 }];
+
+      expect(calculateEndDateWithShifts('2026-03-28T20:00:00.000Z', 420, saturdayNight, bucharest))
+        .toBe('2026-03-29T03:00:00.000Z');
+      expect(isWithinShiftHours('2026-03-29T02:30:00.000Z', saturdayNight, bucharest)).toBe(true);
+    });
+
+    it('should reject an unknown time zone', () => {
+      expect(() => isWithinShiftHours('2026-02-10T10:00:00.000Z', standardShifts, { timeZone: 'Mars/Olympus' }))
+        .toThrow(ShiftConfigurationError);
+    });
+  });
+  describe('calendar exceptions', () => {
+    const calendar = {
+      exceptions: [
+        { date: '2026-02-11', shifts: [], reason: 'Plant holiday' },
+        { date: '2026-02-12', shifts: [{ startHour: 8, endHour: 12 }], reason: 'Shortened day' },
+        { date: '2026-02-14', shifts: [{ startHour: 9, endHour: 13 }], reason: 'Saturday overtime' }
+      ]
+    };
+
+    it('should skip a holiday as non-working time', () => {
+      // Tuesday 16:00 + 120 minutes: 60 on Tuesday, Wednesday is a holiday, 60 on Thursday
+      expect(calculateEndDateWithShifts('2026-02-10T16:00:00.000Z', 120, standardShifts, calendar))
+        .toBe('2026-02-12T09:00:00.000Z');
+      expect(isWithinShiftHours('2026-02-11T10:00:00.000Z', standardShifts, calendar)).toBe(false);
+    });
+
+    it('should use shortened hours and extra shifts from exceptions', () => {
+      expect(isWithinShiftHours('2026-02-12T13:00:00.000Z', standardShifts, calendar)).toBe(false);
+      expect(isWithinShiftHours('2026-02-14T10:00:00.000Z', standardShifts, calendar)).toBe(true);
+
+      // Friday 16:00 + 180 minutes: 60 on Friday, 120 in the Saturday overtime shift
+      expect(calculateEndDateWithShifts('2026-02-13T16:00:00.000Z', 180, standardShifts, calendar))
+        .toBe('2026-02-14T11:00:00.000Z');
+    });
+  });
+
+  describe('calendar caching', () => {
+    it('should pick up shifts edited in place between calls', () => {
+      const shifts = [{ dayOfWeek: 2, startHour: 8, endHour: 17 }];
+      expect(calculateEndDateWithShifts('2026-02-10T16:00:00.000Z', 120, shifts))
+        .toBe('2026-02-17T09:00:00.000Z');
+
+      shifts.push({ dayOfWeek: 3, startHour: 8, endHour: 17 });
+      shifts[0].endHour = 18;
+      expect(calculateEndDateWithShifts('2026-02-10T16:00:00.000Z', 180, shifts))
+        .toBe('2026-02-11T09:00:00.000Z');
+    });
+  });
+
+  describe('findUncoveredWorkingTime', () => {
+    // Crew covers the day in two shifts with an unstaffed lunch hour
+    const crewShifts: Shift[] = [
+      { dayOfWeek: 2, startHour: 8, endHour: 12 },
+      { dayOfWeek: 2, startHour: 13, endHour: 17 }
+    ];
+
+    it('should return undefined when every working minute is covered', () => {
+      expect(findUncoveredWorkingTime(
+        '2026-02-10T08:00:00.000Z', '2026-02-10T12:00:00.000Z', standardShifts, {}, crewShifts, {}
+      )).toBeUndefined();
+
+      // Non-working time on the first schedule needs no cover
+      expect(findUncoveredWorkingTime(
+        '2026-02-09T17:00:00.000Z', '2026-02-10T08:00:00.000Z', standardShifts, {}, [], {}
+      )).toBeUndefined();
+    });
+
+    it('should return the first working time without cover', () => {
+      expect(findUncoveredWorkingTime(
+        '2026-02-10T10:00:00.000Z', '2026-02-10T16:00:00.000Z', standardShifts, {}, crewShifts, {}
+      )).toBe('2026-02-10T12:00:00.000Z');
+    });
+  });
+
+  describe('findStartForMinChunk', () => {
+    it('should keep unbroken work inside one block of working time', () => {
+      // Only 3 hours left on Tuesday
+      expect(findStartForMinChunk('2026-02-10T14:00:00.000Z', 240, 240, standardShifts))
+        .toBe('2026-02-11T08:00:00.000Z');
+
+      // Back-to-back shifts form one block
+      const twoShifts: Shift[] = [
+        { dayOfWeek: 2, startHour: 6, endHour: 14 },
+        { dayOfWeek: 2, startHour: 14, endHour: 22 }
+      ];
+      expect(findStartForMinChunk('2026-02-10T12:00:00.000Z', 300, 300, twoShifts))
+        .toBe('2026-02-10T12:00:00.000Z');
+    });
+
+    it('should avoid pieces shorter than the minimum chunk', () => {
+      // A 30 minute first piece is too short
+      expect(findStartForMinChunk('2026-02-10T16:30:00.000Z', 240, 60, standardShifts))
+        .toBe('2026-02-11T08:00:00.000Z');
+
+      // Starting 10 minutes later leaves a 60 minute last piece instead of 50
+      expect(findStartForMinChunk('2026-02-10T14:30:00.000Z', 200, 60, standardShifts))
+        .toBe('2026-02-10T14:40:00.000Z');
+    });
+
+    it('should reject work no block of working time is long enough for', () => {
+      expect(() => findStartForMinChunk('2026-02-10T08:00:00.000Z', 600, 600, standardShifts)).toThrow(
+        new ShiftConfigurationError('Work needs 600 minutes of unbroken working time, but the longest block of working time is 540 minutes')
+      );
+      expect(findLongestWorkingBlock('2026-02-10T12:00:00.000Z', standardShifts)).toBe(540);
+    });
+
+    it('should list the pieces of working time in a range', () => {
+      expect(getWorkingPieces('2026-02-10T16:00:00.000Z', '2026-02-11T09:00:00.000Z', standardShifts))
+        .toEqual([60, 60]);
+    });
+  });
 });
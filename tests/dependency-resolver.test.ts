@@ -5,6 +5,7 @@
 import { DependencyResolver } from '../src/core/dependency-resolver';
 import { WorkOrder } from '../src/types/common-types';
 import { createWorkOrder } from '../src/models/work-order';
+import { CircularDependencyError, InvalidInputError } from '../src/errors/reflow-errors';
 
 describe('DependencyResolver', () => {
   let resolver: DependencyResolver;
@@ -77,7 +78,7 @@ describe('DependencyResolver', () => {
         })
       ];
 
-      expect(() => resolver.buildDependencyGraph(workOrders)).toThrow();
+      expect(() => resolver.buildDependencyGraph(workOrders)).toThrow(InvalidInputError);
     });
   });
 
@@ -140,6 +141,28 @@ describe('DependencyResolver', () => {
       expect(cycle).not.toBeNull();
       expect(cycle?.type).toBe('CIRCULAR_DEPENDENCY');
     });
+
+    it.each(['START_TO_START', 'FINISH_TO_FINISH', 'START_TO_FINISH'] as const)(
+      'should detect a cycle closed by a %s dependency',
+      type => {
+        const workOrders: WorkOrder[] = ['wo-1', 'wo-2'].map((id, i) =>
+          createWorkOrder(id, {
+            workOrderNumber: id.toUpperCase(),
+            manufacturingOrderId: 'mo-1',
+            workCenterId: `wc-${i + 1}`,
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T10:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: id === 'wo-2' ? ['wo-1'] : []
+          })
+        );
+        workOrders[0].data.dependencies = [{ workOrderId: 'wo-2', type }];
+
+        const cycle = resolver.detectCycles(resolver.buildDependencyGraph(workOrders));
+        expect(cycle?.type).toBe('CIRCULAR_DEPENDENCY');
+      }
+    );
   });
 
   describe('topologicalSort', () => {
@@ -212,7 +235,56 @@ describe('DependencyResolver', () => {
         })
       ];
 
-      expect(() => resolver.topologicalSort(workOrders)).toThrow();
+      expect(() => resolver.topologicalSort(workOrders)).toThrow(CircularDependencyError);
+      expect(() => resolver.topologicalSort(workOrders)).toThrow(expect.objectContaining({
+        code: 'CIRCULAR_DEPENDENCY',
+        docIds: expect.arrayContaining(['wo-1', 'wo-2'])
+      }));
+    });
+
+    it('should order ready work orders with the comparator without breaking dependencies', () => {
+      const workOrders: WorkOrder[] = [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          priority: 5
+        }),
+        createWorkOrder('wo-2', {
+          workOrderNumber: 'WO-2',
+          manufacturingOrderId: 'mo-2',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          priority: 1
+        }),
+        createWorkOrder('wo-3', {
+          workOrderNumber: 'WO-3',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T10:00:00.000Z',
+          endDate: '2026-02-10T12:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: ['wo-1'],
+          priority: 0
+        })
+      ];
+
+      const sorted = resolver.topologicalSort(
+        workOrders,
+        (a, b) => (a.data.priority ?? 0) - (b.data.priority ?? 0)
+      );
+
+      expect(sorted.map(wo => wo.docId)).toEqual(['wo-2', 'wo-1', 'wo-3']);
     });
   });
 
@@ -252,4 +324,31 @@ describe('DependencyResolver', () => {
       expect(children[0].docId).toBe('wo-2');
     });
   });
+
+  describe('getAllDescendants', () => {
+    it('should return descendants in order even when they have parents outside the set', () => {
+      const workOrder = (id: string, dependsOnWorkOrderIds: string[]): WorkOrder =>
+        createWorkOrder(id, {
+          workOrderNumber: id.toUpperCase(),
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds
+        });
+
+      const workOrders = [
+        workOrder('wo-4', ['wo-3']),
+        workOrder('wo-3', ['wo-1', 'wo-2']),
+        workOrder('wo-1', []),
+        workOrder('wo-2', [])
+      ];
+
+      const descendants = resolver.getAllDescendants('wo-1', workOrders);
+      expect(descendants.map(wo => wo.docId)).toEqual(['wo-3', 'wo-4']);
+      expect(descendants[0].data.dependsOnWorkOrderIds).toEqual(['wo-1', 'wo-2']);
+    });
+  });
 });
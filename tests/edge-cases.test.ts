@@ -8,6 +8,7 @@ import { ReflowInput } from '../src/types/common-types';
 import { createWorkOrder } from '../src/models/work-order';
 import { createWorkCenter } from '../src/models/work-center';
 import { createManufacturingOrder } from '../src/models/manufacturing-order';
+import { createPlantCalendar } from '../src/models/plant-calendar';
 
 describe('Edge Cases', () => {
   let service: ReflowService;
@@ -505,4 +506,51 @@ describe('Edge Cases', () => {
       expect(wo.data.endDate > wo.data.startDate).toBe(true);
     });
   });
+  describe('Plant Calendars', () => {
+    const holidayInput = (calendarId: string): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-11T08:00:00.000Z', // Plant holiday
+          endDate: '2026-02-11T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        })
+      ],
+      workCenters: [
+        createWorkCenter('wc-1', {
+          name: 'Work Center 1',
+          shifts: standardShifts,
+          maintenanceWindows: [],
+          calendarId
+        })
+      ],
+      manufacturingOrders: [],
+      plantCalendars: [
+        createPlantCalendar('cal-plant', {
+          name: 'Plant Calendar',
+          exceptions: [{ date: '2026-02-11', shifts: [], reason: 'Plant holiday' }]
+        })
+      ]
+    });
+
+    it('should move work off a plant holiday', () => {
+      const result = service.reflow(holidayInput('cal-plant'));
+      const wo = result.updatedWorkOrders[0];
+
+      expect(wo.data.startDate).toBe('2026-02-12T08:00:00.000Z');
+      expect(wo.data.endDate).toBe('2026-02-12T10:00:00.000Z');
+    });
+
+    it('should reject a work center referencing an unknown plant calendar', () => {
+      expect(() => service.reflow(holidayInput('cal-missing'))).toThrow(/non-existent plant calendar/);
+      expect(() => service.reflow(holidayInput('cal-missing'))).toThrow(expect.objectContaining({
+        code: 'INVALID_INPUT',
+        docIds: ['wc-1', 'cal-missing']
+      }));
+    });
+  });
 });
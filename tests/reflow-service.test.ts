@@ -3,10 +3,14 @@
  */
 
 import { ReflowService } from '../src/core/reflow-service';
-import { ReflowInput, WorkOrder, WorkCenter } from '../src/types/common-types';
+import { ConstraintValidator } from '../src/core/constraint-validator';
+import { ReflowInput, WorkOrder, WorkOrderData, WorkCenter, WorkOrderDependency, OperatorPool } from '../src/types/common-types';
 import { createWorkOrder } from '../src/models/work-order';
 import { createWorkCenter } from '../src/models/work-center';
 import { createManufacturingOrder } from '../src/models/manufacturing-order';
+import { createResource } from '../src/models/resource';
+import { createOperatorPool } from '../src/models/operator-pool';
+import { CircularDependencyError, InvalidScheduleError, ReflowError, UnknownWorkCenterError } from '../src/errors/reflow-errors';
 
 describe('ReflowService', () => {
   let service: ReflowService;
@@ -291,6 +295,1816 @@ describe('ReflowService', () => {
     });
   });
 
+  describe('Setup Time', () => {
+    it('should schedule setup time ahead of the run', () => {
+      const input: ReflowInput = {
+        workOrders: [
+          createWorkOrder('wo-1', {
+            workOrderNumber: 'WO-1',
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T10:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: [],
+            setupTimeMinutes: 45
+          })
+        ],
+        workCenters: [
+          createWorkCenter('wc-1', {
+            name: 'Work Center 1',
+            shifts: standardShifts,
+            maintenanceWindows: []
+          })
+        ],
+        manufacturingOrders: []
+      };
+
+      const result = service.reflow(input);
+
+      expect(result.changes).toHaveLength(1);
+      const change = result.changes[0];
+      expect(change.newStartDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(change.newEndDate).toBe('2026-02-10T10:45:00.000Z');
+      expect(change.setupMinutes).toBe(45);
+      expect(change.setupStartDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(change.setupEndDate).toBe('2026-02-10T08:45:00.000Z');
+    });
+
+    it('should count setup time in work center conflicts', () => {
+      const input: ReflowInput = {
+        workOrders: [
+          createWorkOrder('wo-2', {
+            workOrderNumber: 'WO-2',
+            manufacturingOrderId: 'mo-2',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-10T10:00:00.000Z',
+            endDate: '2026-02-10T12:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          }),
+          createWorkOrder('wo-1', {
+            workOrderNumber: 'WO-1',
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T10:00:00.000Z', // Fits only without its setup
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: [],
+            setupTimeMinutes: 30
+          })
+        ],
+        workCenters: [
+          createWorkCenter('wc-1', {
+            name: 'Work Center 1',
+            shifts: standardShifts,
+            maintenanceWindows: []
+          })
+        ],
+        manufacturingOrders: []
+      };
+
+      const result = service.reflow(input);
+
+      const wo1 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-1')!;
+      const wo2 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+
+      expect(wo1.data.startDate >= wo2.data.endDate).toBe(true);
+      expect(wo1.data.endDate).toBe('2026-02-10T14:30:00.000Z');
+    });
+
+    it('should apply sequence-dependent changeover from the previous item', () => {
+      const input: ReflowInput = {
+        workOrders: [
+          createWorkOrder('wo-red', {
+            workOrderNumber: 'WO-RED',
+            manufacturingOrderId: 'mo-red',
+            workCenterId: 'wc-mixer',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T10:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          }),
+          createWorkOrder('wo-blue', {
+            workOrderNumber: 'WO-BLUE',
+            manufacturingOrderId: 'mo-blue',
+            workCenterId: 'wc-mixer',
+            startDate: '2026-02-10T10:00:00.000Z',
+            endDate: '2026-02-10T12:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: [],
+            setupTimeMinutes: 15
+          })
+        ],
+        workCenters: [
+          createWorkCenter('wc-mixer', {
+            name: 'Mixer',
+            shifts: standardShifts,
+            maintenanceWindows: [],
+            changeoverMatrix: {
+              'ITEM-RED': { 'ITEM-BLUE': 60 }
+            }
+          })
+        ],
+        manufacturingOrders: [
+          createManufacturingOrder('mo-red', {
+            manufacturingOrderNumber: 'MO-RED',
+            itemId: 'ITEM-RED',
+            quantity: 100,
+            dueDate: '2026-02-15T17:00:00.000Z'
+          }),
+          createManufacturingOrder('mo-blue', {
+            manufacturingOrderNumber: 'MO-BLUE',
+            itemId: 'ITEM-BLUE',
+            quantity: 100,
+            dueDate: '2026-02-15T17:00:00.000Z'
+          })
+        ]
+      };
+
+      const result = service.reflow(input);
+
+      const change = result.changes.find(c => c.workOrderId === 'wo-blue')!;
+      expect(change.setupMinutes).toBe(60);
+      expect(change.newStartDate).toBe('2026-02-10T10:00:00.000Z');
+      expect(change.newEndDate).toBe('2026-02-10T13:00:00.000Z');
+    });
+
+    it('should not place an order where it breaks the changeover of the order after it', () => {
+      const input: ReflowInput = {
+        workOrders: [
+          createWorkOrder('wo-red', {
+            workOrderNumber: 'WO-RED',
+            manufacturingOrderId: 'mo-red',
+            workCenterId: 'wc-mixer',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T09:00:00.000Z',
+            durationMinutes: 60,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: [],
+            priority: 2
+          }),
+          createWorkOrder('wo-blue', {
+            workOrderNumber: 'WO-BLUE',
+            manufacturingOrderId: 'mo-blue',
+            workCenterId: 'wc-mixer',
+            startDate: '2026-02-10T09:00:00.000Z',
+            endDate: '2026-02-10T10:00:00.000Z',
+            durationMinutes: 60,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: [],
+            priority: 1
+          })
+        ],
+        workCenters: [
+          createWorkCenter('wc-mixer', {
+            name: 'Mixer',
+            shifts: standardShifts,
+            maintenanceWindows: [],
+            changeoverMatrix: {
+              'ITEM-RED': { 'ITEM-BLUE': 120 }
+            }
+          })
+        ],
+        manufacturingOrders: ['red', 'blue'].map(color =>
+          createManufacturingOrder(`mo-${color}`, {
+            manufacturingOrderNumber: `MO-${color.toUpperCase()}`,
+            itemId: `ITEM-${color.toUpperCase()}`,
+            quantity: 100,
+            dueDate: '2026-02-15T17:00:00.000Z'
+          })
+        )
+      };
+
+      const errors = new ConstraintValidator().validateAll(
+        input.workOrders,
+        input.workCenters,
+        [],
+        [],
+        [],
+        input.manufacturingOrders
+      );
+      expect(errors.map(e => e.type)).toEqual(['CHANGEOVER_VIOLATION']);
+      expect(errors[0].workOrderIds).toEqual(['wo-blue', 'wo-red']);
+
+      // WO-BLUE is placed first; WO-RED cannot slip in ahead of it without the changeover
+      const result = service.reflow(input);
+
+      const red = result.updatedWorkOrders.find(wo => wo.docId === 'wo-red')!;
+      const blue = result.updatedWorkOrders.find(wo => wo.docId === 'wo-blue')!;
+      expect(blue.data.startDate).toBe('2026-02-10T09:00:00.000Z');
+      expect(red.data.startDate).toBe('2026-02-10T10:00:00.000Z');
+      expect(red.data.endDate).toBe('2026-02-10T11:00:00.000Z');
+    });
+  });
+
+  describe('Priority Sequencing', () => {
+    const contestedInput = (): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-normal', {
+          workOrderNumber: 'WO-NORMAL',
+          manufacturingOrderId: 'mo-normal',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T12:00:00.000Z',
+          durationMinutes: 240,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-rush', {
+          workOrderNumber: 'WO-RUSH',
+          manufacturingOrderId: 'mo-rush',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        })
+      ],
+      workCenters: [
+        createWorkCenter('wc-1', {
+          name: 'Work Center 1',
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ],
+      manufacturingOrders: [
+        createManufacturingOrder('mo-normal', {
+          manufacturingOrderNumber: 'MO-NORMAL',
+          itemId: 'ITEM-1',
+          quantity: 100,
+          dueDate: '2026-02-20T17:00:00.000Z'
+        }),
+        createManufacturingOrder('mo-rush', {
+          manufacturingOrderNumber: 'MO-RUSH',
+          itemId: 'ITEM-2',
+          quantity: 10,
+          dueDate: '2026-02-10T12:00:00.000Z',
+          priority: 1
+        })
+      ]
+    });
+
+    it('should let the rush order win a contested work center', () => {
+      const result = service.reflow(contestedInput());
+
+      const rush = result.updatedWorkOrders.find(wo => wo.docId === 'wo-rush')!;
+      const normal = result.updatedWorkOrders.find(wo => wo.docId === 'wo-normal')!;
+
+      expect(rush.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(normal.data.startDate).toBe(rush.data.endDate);
+    });
+
+    it('should keep input order when sequencing rules are disabled', () => {
+      const result = service.reflow(contestedInput(), { sequencingRules: [] });
+
+      const rush = result.updatedWorkOrders.find(wo => wo.docId === 'wo-rush')!;
+      const normal = result.updatedWorkOrders.find(wo => wo.docId === 'wo-normal')!;
+
+      expect(normal.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(rush.data.startDate).toBe(normal.data.endDate);
+    });
+
+    it('should apply shortest processing time as a tie-break rule', () => {
+      const input = contestedInput();
+      input.manufacturingOrders[1].data.priority = undefined;
+
+      const result = service.reflow(input, { sequencingRules: ['SHORTEST_PROCESSING_TIME'] });
+
+      const rush = result.updatedWorkOrders.find(wo => wo.docId === 'wo-rush')!;
+      expect(rush.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+    });
+  });
+
+  describe('Compaction', () => {
+    // WO-2 was planned behind an order that has since been cancelled, leaving a gap after WO-1
+    const gappedInput = (): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-2', {
+          workOrderNumber: 'WO-2',
+          manufacturingOrderId: 'mo-2',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T13:00:00.000Z',
+          endDate: '2026-02-10T15:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-3', {
+          workOrderNumber: 'WO-3',
+          manufacturingOrderId: 'mo-2',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T15:00:00.000Z',
+          endDate: '2026-02-10T16:00:00.000Z',
+          durationMinutes: 60,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: ['wo-2']
+        })
+      ],
+      workCenters: [
+        createWorkCenter('wc-1', {
+          name: 'Work Center 1',
+          shifts: standardShifts,
+          maintenanceWindows: [
+            {
+              startDate: '2026-02-10T10:00:00.000Z',
+              endDate: '2026-02-10T11:00:00.000Z',
+              reason: 'Calibration'
+            }
+          ]
+        }),
+        createWorkCenter('wc-2', { name: 'WC2', shifts: standardShifts, maintenanceWindows: [] })
+      ],
+      manufacturingOrders: []
+    });
+
+    it('should leave gaps in place without compaction', () => {
+      const result = service.reflow(gappedInput());
+      expect(result.changes).toHaveLength(0);
+    });
+
+    it('should pull work orders earlier while respecting maintenance and dependencies', () => {
+      const result = service.reflow(gappedInput(), { compact: true });
+
+      const wo1 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-1')!;
+      const wo2 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+      const wo3 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-3')!;
+
+      expect(wo1.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(wo2.data.startDate).toBe('2026-02-10T11:00:00.000Z'); // After the maintenance window
+      expect(wo3.data.startDate).toBe('2026-02-10T13:00:00.000Z'); // Right after WO-2
+
+      const change = result.changes.find(c => c.workOrderId === 'wo-2')!;
+      expect(change.delayMinutes).toBe(-120);
+      expect(change.reason).toContain('Moved earlier');
+      expect(result.metrics?.totalDelayMinutes).toBe(0);
+    });
+
+    it('should keep the planned sequence of a tight schedule whatever the input order', () => {
+      const input = gappedInput();
+      input.workOrders = [
+        createWorkOrder('wo-b', {
+          workOrderNumber: 'WO-B',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T10:00:00.000Z',
+          endDate: '2026-02-10T12:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-a', {
+          workOrderNumber: 'WO-A',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        })
+      ];
+
+      const result = service.reflow(input, { compact: true });
+
+      expect(result.changes).toHaveLength(0);
+      expect(result.updatedWorkOrders.map(wo => wo.data.startDate))
+        .toEqual(['2026-02-10T10:00:00.000Z', '2026-02-10T08:00:00.000Z']);
+    });
+
+    it('should skip long runs of back-to-back orders in one step', () => {
+      const allDay = [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, startHour: 0, endHour: 24 }));
+      const firstStart = Date.parse('2026-02-09T01:00:00.000Z');
+      const at = (minutes: number): string => new Date(firstStart + minutes * 60000).toISOString();
+
+      const input: ReflowInput = {
+        workOrders: Array.from({ length: 1200 }, (_, i) =>
+          createWorkOrder(`wo-${i}`, {
+            workOrderNumber: `W${i}`,
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-1',
+            startDate: at(i * 30),
+            endDate: at(i * 30 + 30),
+            durationMinutes: 30,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          })
+        ),
+        workCenters: [createWorkCenter('wc-1', { name: 'Work Center 1', shifts: allDay, maintenanceWindows: [] })],
+        manufacturingOrders: []
+      };
+
+      const result = service.reflow(input, { compact: true, compactFrom: '2026-02-09T00:00:00.000Z' });
+
+      expect(result.changes).toHaveLength(1200);
+      expect(result.changes.every(change => change.delayMinutes === -60)).toBe(true);
+      expect(result.updatedWorkOrders[1199].data.startDate).toBe(at(1199 * 30 - 60));
+    });
+  });
+
+  describe('Disruption Events', () => {
+    // WO-1 then WO-2 on WC1, WO-3 on WC2 follows WO-2
+    const plannedInput = (): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-2', {
+          workOrderNumber: 'WO-2',
+          manufacturingOrderId: 'mo-2',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T10:00:00.000Z',
+          endDate: '2026-02-10T12:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-3', {
+          workOrderNumber: 'WO-3',
+          manufacturingOrderId: 'mo-2',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T12:00:00.000Z',
+          endDate: '2026-02-10T13:00:00.000Z',
+          durationMinutes: 60,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: ['wo-2']
+        })
+      ],
+      workCenters: [
+        createWorkCenter('wc-1', { name: 'WC1', shifts: standardShifts, maintenanceWindows: [] }),
+        createWorkCenter('wc-2', { name: 'WC2', shifts: standardShifts, maintenanceWindows: [] })
+      ],
+      manufacturingOrders: []
+    });
+
+    const startOf = (result: { updatedWorkOrders: WorkOrder[] }, id: string): string =>
+      result.updatedWorkOrders.find(wo => wo.docId === id)!.data.startDate;
+
+    it('should push the schedule back when a work order runs late', () => {
+      const result = service.reflowWithDisruptions(plannedInput(), [
+        { type: 'WORK_ORDER_DELAYED', eventId: 'evt-1', workOrderId: 'wo-1', delayMinutes: 60 }
+      ]);
+
+      const wo1Change = result.changes.find(c => c.workOrderId === 'wo-1')!;
+      expect(wo1Change.newEndDate).toBe('2026-02-10T11:00:00.000Z');
+      expect(wo1Change.delayMinutes).toBe(60);
+
+      expect(startOf(result, 'wo-2')).toBe('2026-02-10T11:00:00.000Z');
+      expect(startOf(result, 'wo-3')).toBe('2026-02-10T13:00:00.000Z');
+      result.changes.forEach(change => expect(change.causedByEventIds).toEqual(['evt-1']));
+    });
+
+    it('should block a broken-down work center until the estimated repair ends', () => {
+      const result = service.reflowWithDisruptions(plannedInput(), [
+        {
+          type: 'WORK_CENTER_BREAKDOWN',
+          eventId: 'evt-1',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T12:00:00.000Z',
+          estimatedRepairMinutes: 120
+        }
+      ]);
+
+      expect(result.changes).toHaveLength(1);
+      expect(result.changes[0].workOrderId).toBe('wo-3');
+      expect(result.changes[0].newStartDate).toBe('2026-02-10T14:00:00.000Z');
+      expect(result.changes[0].causedByEventIds).toEqual(['evt-1']);
+    });
+
+    it('should schedule a rush order ahead of the planned work', () => {
+      const result = service.reflowWithDisruptions(plannedInput(), [
+        {
+          type: 'RUSH_ORDER_ADDED',
+          eventId: 'evt-1',
+          workOrders: [
+            createWorkOrder('wo-r', {
+              workOrderNumber: 'WO-R',
+              manufacturingOrderId: 'mo-r',
+              workCenterId: 'wc-1',
+              startDate: '2026-02-10T08:00:00.000Z',
+              endDate: '2026-02-10T09:00:00.000Z',
+              durationMinutes: 60,
+              isMaintenance: false,
+              dependsOnWorkOrderIds: []
+            })
+          ],
+          manufacturingOrder: createManufacturingOrder('mo-r', {
+            manufacturingOrderNumber: 'MO-R',
+            itemId: 'ITEM-R',
+            quantity: 10,
+            dueDate: '2026-02-10T12:00:00.000Z'
+          })
+        }
+      ]);
+
+      expect(startOf(result, 'wo-r')).toBe('2026-02-10T08:00:00.000Z');
+      expect(startOf(result, 'wo-1')).toBe('2026-02-10T09:00:00.000Z');
+      expect(startOf(result, 'wo-2')).toBe('2026-02-10T11:00:00.000Z');
+      expect(startOf(result, 'wo-3')).toBe('2026-02-10T13:00:00.000Z');
+      expect(result.changes).toHaveLength(3);
+      result.changes.forEach(change => expect(change.causedByEventIds).toEqual(['evt-1']));
+      expect(result.manufacturingOrderLateness.map(mo => mo.manufacturingOrderId)).toContain('mo-r');
+    });
+
+    it('should remove a cancelled order and let compaction use its capacity', () => {
+      const events = [{ type: 'WORK_ORDER_CANCELLED' as const, eventId: 'evt-1', workOrderId: 'wo-1' }];
+
+      const result = service.reflowWithDisruptions(plannedInput(), events, { compact: true });
+
+      expect(result.updatedWorkOrders.map(wo => wo.docId)).not.toContain('wo-1');
+      expect(startOf(result, 'wo-2')).toBe('2026-02-10T08:00:00.000Z');
+      expect(startOf(result, 'wo-3')).toBe('2026-02-10T10:00:00.000Z');
+      result.changes.forEach(change => expect(change.causedByEventIds).toEqual(['evt-1']));
+
+      // Without compaction the gap stays open
+      expect(service.reflowWithDisruptions(plannedInput(), events).changes).toHaveLength(0);
+    });
+
+    it('should recalculate the end date when the duration changes', () => {
+      const result = service.reflowWithDisruptions(plannedInput(), [
+        { type: 'DURATION_CHANGED', eventId: 'evt-1', workOrderId: 'wo-2', durationMinutes: 60 }
+      ]);
+
+      expect(result.changes).toHaveLength(1);
+      expect(result.changes[0].newEndDate).toBe('2026-02-10T11:00:00.000Z');
+      expect(result.changes[0].delayMinutes).toBe(-60);
+      expect(result.changes[0].causedByEventIds).toEqual(['evt-1']);
+    });
+
+    it('should trace changes back to every event that caused them', () => {
+      const result = service.reflowWithDisruptions(plannedInput(), [
+        { type: 'WORK_ORDER_DELAYED', eventId: 'evt-1', workOrderId: 'wo-1', delayMinutes: 60 },
+        {
+          type: 'WORK_CENTER_BREAKDOWN',
+          eventId: 'evt-2',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T12:00:00.000Z',
+          estimatedRepairMinutes: 120
+        }
+      ]);
+
+      const wo3Change = result.changes.find(c => c.workOrderId === 'wo-3')!;
+      expect(wo3Change.newStartDate).toBe('2026-02-10T14:00:00.000Z');
+      expect(wo3Change.causedByEventIds).toEqual(expect.arrayContaining(['evt-1', 'evt-2']));
+      expect(result.changes.find(c => c.workOrderId === 'wo-2')!.causedByEventIds).toEqual(['evt-1']);
+    });
+
+    it('should reject events that reference unknown work orders', () => {
+      expect(() =>
+        service.reflowWithDisruptions(plannedInput(), [
+          { type: 'WORK_ORDER_CANCELLED', eventId: 'evt-1', workOrderId: 'wo-x' }
+        ])
+      ).toThrow('Disruption event evt-1 references non-existent work order: wo-x');
+    });
+
+    it('should leave the input schedule untouched', () => {
+      const input = plannedInput();
+      service.reflowWithDisruptions(input, [
+        { type: 'WORK_ORDER_DELAYED', eventId: 'evt-1', workOrderId: 'wo-1', delayMinutes: 60 }
+      ]);
+
+      expect(input.workOrders[0].data.durationMinutes).toBe(120);
+    });
+  });
+
+  describe('Dependency Lags', () => {
+    // WO-1 finishes at 16:00 Tuesday; WO-2 follows on the same line after a lag
+    const lagInput = (lagMinutes: number, lagType: 'CALENDAR' | 'WORKING'): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T14:00:00.000Z',
+          endDate: '2026-02-10T16:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-2', {
+          workOrderNumber: 'WO-2',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T16:00:00.000Z',
+          endDate: '2026-02-10T17:00:00.000Z',
+          durationMinutes: 60,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          dependencies: [{ workOrderId: 'wo-1', lagMinutes, lagType }]
+        })
+      ],
+      workCenters: ['wc-1', 'wc-2'].map(id =>
+        createWorkCenter(id, {
+          name: id,
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ),
+      manufacturingOrders: []
+    });
+
+    it('should count calendar lags through the night', () => {
+      // 16 hours of curing: 16:00 Tuesday -> 08:00 Wednesday
+      const result = service.reflow(lagInput(16 * 60, 'CALENDAR'));
+      const wo2 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+
+      expect(wo2.data.startDate).toBe('2026-02-11T08:00:00.000Z');
+      expect(result.changes.find(c => c.workOrderId === 'wo-2')?.reason).toContain('Waiting for dependencies: WO-1');
+    });
+
+    it('should count working lags on shift time only', () => {
+      // 4 working hours: one hour Tuesday, three hours Wednesday -> 11:00 Wednesday
+      const result = service.reflow(lagInput(4 * 60, 'WORKING'));
+      const wo2 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+
+      expect(wo2.data.startDate).toBe('2026-02-11T11:00:00.000Z');
+      expect(wo2.data.endDate).toBe('2026-02-11T12:00:00.000Z');
+    });
+
+    it('should treat bare dependency ids as having no lag', () => {
+      const input = lagInput(0, 'CALENDAR');
+      input.workOrders[1].data.dependencies = undefined;
+      input.workOrders[1].data.dependsOnWorkOrderIds = ['wo-1'];
+
+      const result = service.reflow(input);
+      expect(result.changes).toHaveLength(0);
+    });
+  });
+
+  describe('Dependency Types', () => {
+    // Extrusion runs 08:00-12:00; packaging takes two hours on its own line
+    const overlapInput = (dependencies: WorkOrderDependency[]): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-extrude', {
+          workOrderNumber: 'WO-EXTRUDE',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T12:00:00.000Z',
+          durationMinutes: 240,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        }),
+        createWorkOrder('wo-pack', {
+          workOrderNumber: 'WO-PACK',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-2',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          dependencies
+        })
+      ],
+      workCenters: ['wc-1', 'wc-2'].map(id =>
+        createWorkCenter(id, {
+          name: id,
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ),
+      manufacturingOrders: []
+    });
+
+    const packOf = (result: { updatedWorkOrders: WorkOrder[] }): WorkOrder =>
+      result.updatedWorkOrders.find(wo => wo.docId === 'wo-pack')!;
+
+    it('should start a start-to-start dependent after the parent starts plus lag', () => {
+      const result = service.reflow(overlapInput([
+        { workOrderId: 'wo-extrude', type: 'START_TO_START', lagMinutes: 60 }
+      ]));
+
+      expect(packOf(result).data.startDate).toBe('2026-02-10T09:00:00.000Z');
+      expect(packOf(result).data.endDate).toBe('2026-02-10T11:00:00.000Z');
+    });
+
+    it('should hold a finish-to-finish dependent until it finishes with the parent', () => {
+      const result = service.reflow(overlapInput([
+        { workOrderId: 'wo-extrude', type: 'START_TO_START', lagMinutes: 60 },
+        { workOrderId: 'wo-extrude', type: 'FINISH_TO_FINISH' }
+      ]));
+
+      // Overlaps extrusion and finishes together with it
+      expect(packOf(result).data.startDate).toBe('2026-02-10T10:00:00.000Z');
+      expect(packOf(result).data.endDate).toBe('2026-02-10T12:00:00.000Z');
+      expect(result.changes[0].reason).toContain('Waiting for dependencies: WO-EXTRUDE');
+    });
+
+    it('should keep a start-to-finish dependent from finishing before the parent starts', () => {
+      const input = overlapInput([{ workOrderId: 'wo-extrude', type: 'START_TO_FINISH', lagMinutes: 180 }]);
+
+      const result = service.reflow(input);
+      expect(packOf(result).data.endDate).toBe('2026-02-10T11:00:00.000Z');
+    });
+
+    it('should report dependents that finish too early', () => {
+      const input = overlapInput([{ workOrderId: 'wo-extrude', type: 'FINISH_TO_FINISH' }]);
+
+      const errors = new ConstraintValidator().validateDependencies(input.workOrders, input.workCenters);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe('Work order WO-PACK finishes before dependency WO-EXTRUDE completes');
+    });
+  });
+
+  describe('Alternate Work Centers', () => {
+    // WO-1 holds wc-1 until noon; WO-2 is planned on wc-1 at the same time
+    const routingInput = (durationMultiplier?: number, alternateId = 'wc-2'): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T12:00:00.000Z',
+          durationMinutes: 240,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          priority: 1
+        }),
+        createWorkOrder('wo-2', {
+          workOrderNumber: 'WO-2',
+          manufacturingOrderId: 'mo-2',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          priority: 2,
+          alternateWorkCenters: [{ workCenterId: alternateId, durationMultiplier }]
+        })
+      ],
+      workCenters: ['wc-1', 'wc-2'].map(id =>
+        createWorkCenter(id, {
+          name: id,
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ),
+      manufacturingOrders: []
+    });
+
+    it('should move work to an idle alternate instead of queuing', () => {
+      const result = service.reflow(routingInput());
+      const wo2 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+
+      expect(wo2.data.workCenterId).toBe('wc-2');
+      expect(wo2.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(wo2.data.endDate).toBe('2026-02-10T10:00:00.000Z');
+      // The original work center stays eligible for later reflows
+      expect(wo2.data.alternateWorkCenters?.map(a => a.workCenterId)).toEqual(['wc-1', 'wc-2']);
+
+      expect(result.changes).toHaveLength(1);
+      expect(result.changes[0]).toMatchObject({
+        workOrderId: 'wo-2',
+        originalWorkCenterId: 'wc-1',
+        newWorkCenterId: 'wc-2'
+      });
+      expect(result.changes[0].reason).toContain('Moved from work center wc-1 to wc-2');
+    });
+
+    it('should apply duration multipliers when comparing finishes', () => {
+      // 2.5x on wc-2 finishes at 13:00, before waiting for wc-1 (14:00)
+      const faster = service.reflow(routingInput(2.5)).updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+      expect(faster.data.workCenterId).toBe('wc-2');
+      expect(faster.data.endDate).toBe('2026-02-10T13:00:00.000Z');
+
+      // 4x on wc-2 would finish at 16:00, so it waits for wc-1
+      const result = service.reflow(routingInput(4));
+      const slower = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+      expect(slower.data.workCenterId).toBe('wc-1');
+      expect(slower.data.startDate).toBe('2026-02-10T12:00:00.000Z');
+      expect(result.changes[0].newWorkCenterId).toBeUndefined();
+    });
+
+    it('should reject unknown alternate work centers', () => {
+      expect(() => service.reflow(routingInput(undefined, 'wc-x')))
+        .toThrow('Work order WO-2 references non-existent work center: wc-x');
+    });
+  });
+
+  describe('Work Center Capacity', () => {
+    // Three two-hour batches planned at once in a pool of two ovens
+    const ovenInput = (): ReflowInput => ({
+      workOrders: [1, 2, 3].map(n =>
+        createWorkOrder(`wo-${n}`, {
+          workOrderNumber: `WO-${n}`,
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-ovens',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        })
+      ),
+      workCenters: [
+        createWorkCenter('wc-ovens', {
+          name: 'Ovens',
+          shifts: standardShifts,
+          maintenanceWindows: [],
+          capacity: 2
+        })
+      ],
+      manufacturingOrders: []
+    });
+
+    it('should run up to capacity orders at once', () => {
+      const result = service.reflow(ovenInput());
+      const starts = result.updatedWorkOrders.map(wo => wo.data.startDate);
+
+      expect(starts).toEqual([
+        '2026-02-10T08:00:00.000Z',
+        '2026-02-10T08:00:00.000Z',
+        '2026-02-10T10:00:00.000Z'
+      ]);
+      expect(result.changes).toHaveLength(1);
+      expect(result.changes[0].reason).toContain('Work center busy with: WO-1');
+    });
+
+    it('should divide utilization across the units', () => {
+      const result = service.reflow(ovenInput());
+
+      // 360 working minutes over 2 × 45 shift hours a week
+      expect(result.metrics?.workCenterUtilization['wc-ovens']).toBe(6.67);
+    });
+
+    it('should report orders beyond capacity', () => {
+      const input = ovenInput();
+      const errors = new ConstraintValidator().validateWorkCenterConflicts(input.workOrders, input.workCenters);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe('Work center wc-ovens runs 3 work orders at once (capacity 2): WO-1, WO-2, WO-3');
+    });
+  });
+
+  describe('Resource Constraints', () => {
+    // Two orders on different presses both need the same mold at 08:00
+    const moldInput = (quantity?: number, resourceId = 'res-mold'): ReflowInput => ({
+      workOrders: [1, 2].map(n =>
+        createWorkOrder(`wo-${n}`, {
+          workOrderNumber: `WO-${n}`,
+          manufacturingOrderId: 'mo-1',
+          workCenterId: `wc-${n}`,
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          requiredResourceIds: [resourceId]
+        })
+      ),
+      workCenters: ['wc-1', 'wc-2'].map(id =>
+        createWorkCenter(id, {
+          name: id,
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ),
+      manufacturingOrders: [],
+      resources: [createResource('res-mold', { name: 'Mold A', quantity })]
+    });
+
+    it('should not let two work centers hold the same tool at once', () => {
+      const result = service.reflow(moldInput());
+      const wo2 = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+
+      expect(wo2.data.startDate).toBe('2026-02-10T10:00:00.000Z');
+      expect(wo2.data.endDate).toBe('2026-02-10T12:00:00.000Z');
+      expect(result.changes[0].reason).toContain('Resource Mold A held by: WO-1');
+    });
+
+    it('should share a tool with several units', () => {
+      const result = service.reflow(moldInput(2));
+      expect(result.changes).toHaveLength(0);
+    });
+
+    it('should report orders holding a tool beyond its quantity', () => {
+      const input = moldInput();
+      const errors = new ConstraintValidator().validateResourceConflicts(input.workOrders, input.resources);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].type).toBe('RESOURCE_CONFLICT');
+      expect(errors[0].message).toBe('Resource Mold A is held by 2 work orders at once (available 1): WO-1, WO-2');
+    });
+
+    it('should reject unknown resources', () => {
+      expect(() => service.reflow(moldInput(1, 'res-x')))
+        .toThrow('Work order WO-1 requires non-existent resource: res-x');
+    });
+  });
+
+  describe('Labor Constraints', () => {
+    const laborInput = (headcount: number, skill = 'press'): ReflowInput => ({
+      workOrders: [1, 2].map(n =>
+        createWorkOrder(`wo-${n}`, {
+          workOrderNumber: `WO-${n}`,
+          manufacturingOrderId: 'mo-1',
+          workCenterId: `wc-${n}`,
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          laborRequirements: [{ skill, operators: 1 }]
+        })
+      ),
+      workCenters: ['wc-1', 'wc-2'].map(id =>
+        createWorkCenter(id, {
+          name: id,
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ),
+      manufacturingOrders: [],
+      operatorPools: [
+        createOperatorPool('pool-press', {
+          name: 'Press operators',
+          headcount,
+          skills: ['press'],
+          shifts: standardShifts
+        })
+      ]
+    });
+
+    it('should not run more lines than there are qualified operators', () => {
+      const result = service.reflow(laborInput(1));
+      const [wo1, wo2] = result.updatedWorkOrders;
+
+      expect(wo1.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(wo2.data.startDate).toBe('2026-02-10T10:00:00.000Z');
+      expect(wo2.data.operatorAssignments).toEqual([
+        { operatorPoolId: 'pool-press', skill: 'press', operators: 1 }
+      ]);
+    });
+
+    it('should run lines in parallel when the pool is large enough', () => {
+      const result = service.reflow(laborInput(2));
+      expect(result.changes).toHaveLength(0);
+    });
+
+    it('should only schedule work while the crew is on shift', () => {
+      // The machine also runs an early shift from 06:00, but the crew starts at 08:00
+      const input = laborInput(2);
+      input.workCenters[0].data.shifts = standardShifts.map(shift => ({ ...shift, startHour: 6 }));
+      input.workOrders[0].data.startDate = '2026-02-10T06:00:00.000Z';
+      input.workOrders[0].data.endDate = '2026-02-10T08:00:00.000Z';
+
+      const wo1 = service.reflow(input).updatedWorkOrders[0];
+      expect(wo1.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(wo1.data.endDate).toBe('2026-02-10T10:00:00.000Z');
+    });
+
+    it('should report pools drawn beyond their headcount', () => {
+      const input = laborInput(1);
+      input.workOrders.forEach(wo => {
+        wo.data.operatorAssignments = [{ operatorPoolId: 'pool-press', skill: 'press', operators: 1 }];
+      });
+
+      const errors = new ConstraintValidator().validateLaborConflicts(input.workOrders, input.operatorPools);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].type).toBe('LABOR_CONFLICT');
+      expect(errors[0].message).toBe('Operator pool Press operators is short of operators (headcount 1): WO-1, WO-2');
+    });
+
+    it('should keep operators for firmed orders', () => {
+      const input = laborInput(1);
+      input.workOrders[0].data.status = 'FIRMED';
+      input.workOrders.reverse();
+
+      const result = service.reflow(input);
+      const firmed = result.updatedWorkOrders.find(wo => wo.docId === 'wo-1')!;
+      const planned = result.updatedWorkOrders.find(wo => wo.docId === 'wo-2')!;
+
+      expect(firmed.data.operatorAssignments).toEqual([
+        { operatorPoolId: 'pool-press', skill: 'press', operators: 1 }
+      ]);
+      expect(planned.data.startDate).toBe('2026-02-10T10:00:00.000Z');
+    });
+
+    it('should report labor fixed orders cannot get', () => {
+      const input = laborInput(1);
+      input.workOrders.forEach(wo => {
+        wo.data.status = 'FIRMED';
+      });
+
+      const result = service.reflow(input, { diagnose: true });
+      expect(result.diagnostics!.validationErrors).toEqual([
+        {
+          type: 'LABOR_CONFLICT',
+          message: 'Work order WO-2 has no operators assigned for press',
+          workOrderIds: ['wo-2']
+        }
+      ]);
+    });
+
+    it('should reject skills no pool can provide', () => {
+      expect(() => service.reflow(laborInput(1, 'welding')))
+        .toThrow('Work order WO-1 needs 1 operators skilled in welding, but no operator pool can provide them');
+    });
+
+    it('should explain delays caused by busy operators', () => {
+      const result = service.reflow(laborInput(1));
+      const change = result.changes.find(c => c.workOrderId === 'wo-2')!;
+
+      expect(change.reason).toBe('Waiting for operators: Press operators');
+    });
+
+    describe('with several skills', () => {
+      // One order needing a welder and a painter at once
+      const skillsInput = (operatorPools: OperatorPool[]): ReflowInput => {
+        const input = laborInput(1);
+        input.workOrders = [input.workOrders[0]];
+        input.workOrders[0].data.laborRequirements = [
+          { skill: 'weld', operators: 1 },
+          { skill: 'paint', operators: 1 }
+        ];
+        input.operatorPools = operatorPools;
+        return input;
+      };
+      const multiSkilled = createOperatorPool('pool-multi', {
+        name: 'Multi-skilled',
+        headcount: 1,
+        skills: ['weld', 'paint'],
+        shifts: standardShifts
+      });
+
+      it('should leave a multi-skilled operator to the skill only they have', () => {
+        const welders = createOperatorPool('pool-welders', {
+          name: 'Welders',
+          headcount: 1,
+          skills: ['weld'],
+          shifts: standardShifts
+        });
+
+        const result = service.reflow(skillsInput([multiSkilled, welders]));
+        const [wo] = result.updatedWorkOrders;
+
+        expect(result.changes).toHaveLength(0);
+        expect(wo.data.operatorAssignments).toEqual([
+          { operatorPoolId: 'pool-welders', skill: 'weld', operators: 1 },
+          { operatorPoolId: 'pool-multi', skill: 'paint', operators: 1 }
+        ]);
+      });
+
+      it('should reject skills the pools can only provide one at a time', () => {
+        expect(() => service.reflow(skillsInput([multiSkilled]))).toThrow(
+          'Work order WO-1 needs operators for 1 weld, 1 paint at once, but the operator pools cannot provide them together'
+        );
+      });
+    });
+  });
+
+  describe('Material Availability', () => {
+    // Two orders for the same item, each needing 100 units, planned Tuesday 08:00
+    const materialInput = (): ReflowInput => ({
+      workOrders: [1, 2].map(n =>
+        createWorkOrder(`wo-${n}`, {
+          workOrderNumber: `WO-${n}`,
+          manufacturingOrderId: `mo-${n}`,
+          workCenterId: `wc-${n}`,
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        })
+      ),
+      workCenters: ['wc-1', 'wc-2'].map(id =>
+        createWorkCenter(id, {
+          name: id,
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ),
+      manufacturingOrders: [1, 2].map(n =>
+        createManufacturingOrder(`mo-${n}`, {
+          manufacturingOrderNumber: `MO-${n}`,
+          itemId: 'ITEM-1',
+          quantity: 100,
+          dueDate: `2026-02-1${n + 1}T17:00:00.000Z`
+        })
+      ),
+      materialArrivals: [
+        { itemId: 'ITEM-1', quantity: 60, arrivalDate: '2026-02-10T09:00:00.000Z' },
+        { itemId: 'ITEM-1', quantity: 60, arrivalDate: '2026-02-10T10:00:00.000Z' },
+        { itemId: 'ITEM-1', quantity: 80, arrivalDate: '2026-02-11T08:00:00.000Z' }
+      ]
+    });
+
+    it('should hold work until its material has arrived, earliest due date first', () => {
+      const result = service.reflow(materialInput());
+      const [wo1, wo2] = result.updatedWorkOrders;
+
+      expect(wo1.data.startDate).toBe('2026-02-10T10:00:00.000Z');
+      expect(wo2.data.startDate).toBe('2026-02-11T08:00:00.000Z');
+      expect(result.changes[0].reason).toContain('Waiting for material (arrives 2026-02-10T10:00:00.000Z)');
+    });
+
+    it('should not start work before its release date', () => {
+      const input = materialInput();
+      input.materialArrivals = [];
+      input.workOrders[0].data.releaseDate = '2026-02-10T13:00:00.000Z';
+
+      const result = service.reflow(input);
+      expect(result.updatedWorkOrders[0].data.startDate).toBe('2026-02-10T13:00:00.000Z');
+      expect(result.changes).toHaveLength(1);
+      expect(result.changes[0].reason).toContain('Not released until 2026-02-10T13:00:00.000Z');
+    });
+
+    it('should reject orders whose material never fully arrives', () => {
+      const input = materialInput();
+      input.materialArrivals!.pop();
+
+      expect(() => service.reflow(input))
+        .toThrow('Material for manufacturing order MO-2 never fully arrives: ITEM-1');
+    });
+  });
+
+  describe('Work Order Status', () => {
+    // WO-1 is running 08:00-10:00 Tuesday; WO-2 (1h) was planned into the middle of it
+    const shopFloorInput = (): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T08:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 120,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          status: 'IN_PROGRESS'
+        }),
+        createWorkOrder('wo-2', {
+          workOrderNumber: 'WO-2',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T09:00:00.000Z',
+          endDate: '2026-02-10T10:00:00.000Z',
+          durationMinutes: 60,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: []
+        })
+      ],
+      workCenters: [
+        createWorkCenter('wc-1', {
+          name: 'Work Center 1',
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ],
+      manufacturingOrders: []
+    });
+
+    it('should keep in-progress orders at their start and run the remaining minutes from now', () => {
+      const input = shopFloorInput();
+      input.workOrders[0].data.remainingMinutes = 90;
+
+      const result = service.reflow(input, { now: '2026-02-10T09:30:00.000Z' });
+      const [wo1, wo2] = result.updatedWorkOrders;
+
+      expect(wo1.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(wo1.data.endDate).toBe('2026-02-10T11:00:00.000Z');
+      expect(wo2.data.startDate).toBe('2026-02-10T11:00:00.000Z');
+      expect(result.changes[0].reason).toBe('In progress: 90 minutes remaining');
+    });
+
+    it('should derive the remaining minutes from percent complete', () => {
+      const input = shopFloorInput();
+      input.workOrders[0].data.percentComplete = 25;
+
+      const result = service.reflow(input, { now: '2026-02-10T10:00:00.000Z' });
+      expect(result.updatedWorkOrders[0].data.endDate).toBe('2026-02-10T11:30:00.000Z');
+    });
+
+    it('should not move firmed orders', () => {
+      const input = shopFloorInput();
+      input.workOrders.push(createWorkOrder('wo-3', {
+        workOrderNumber: 'WO-3',
+        manufacturingOrderId: 'mo-1',
+        workCenterId: 'wc-1',
+        startDate: '2026-02-10T10:30:00.000Z',
+        endDate: '2026-02-10T11:30:00.000Z',
+        durationMinutes: 60,
+        isMaintenance: false,
+        dependsOnWorkOrderIds: [],
+        status: 'FIRMED'
+      }));
+
+      const result = service.reflow(input);
+      const [wo1, wo2, wo3] = result.updatedWorkOrders;
+
+      expect(wo1.data.endDate).toBe('2026-02-10T10:00:00.000Z');
+      expect(wo3.data.startDate).toBe('2026-02-10T10:30:00.000Z');
+      // The 10:00-10:30 gap is too short, so WO-2 waits for the firmed order
+      expect(wo2.data.startDate).toBe('2026-02-10T11:30:00.000Z');
+    });
+
+    it('should not count completed orders as capacity consumers', () => {
+      const input = shopFloorInput();
+      input.workOrders[0].data.status = 'COMPLETE';
+
+      const result = service.reflow(input);
+      expect(result.changes).toHaveLength(0);
+      expect(new ConstraintValidator().validateAll(input.workOrders, input.workCenters)).toEqual([]);
+    });
+
+    it('should keep a resized firmed order at its start and push what follows', () => {
+      const input = shopFloorInput();
+      input.workOrders[0].data.status = 'FIRMED';
+
+      const result = service.reflowWithDisruptions(input, [
+        { type: 'DURATION_CHANGED', eventId: 'evt-1', workOrderId: 'wo-1', durationMinutes: 180 }
+      ]);
+      const [wo1, wo2] = result.updatedWorkOrders;
+
+      expect(wo1.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(wo1.data.endDate).toBe('2026-02-10T11:00:00.000Z');
+      expect(wo2.data.startDate).toBe('2026-02-10T11:00:00.000Z');
+      expect(result.changes[0].reason).toBe('Firmed: keeps its start, run now takes 180 minutes');
+      expect(result.changes.map(c => c.causedByEventIds)).toEqual([['evt-1'], ['evt-1']]);
+    });
+
+    it('should add a delay to the remaining minutes of an in-progress order', () => {
+      const input = shopFloorInput();
+      input.workOrders[0].data.remainingMinutes = 60;
+
+      const result = service.reflowWithDisruptions(input, [
+        { type: 'WORK_ORDER_DELAYED', eventId: 'evt-1', workOrderId: 'wo-1', delayMinutes: 30 }
+      ]);
+      const [wo1, wo2] = result.updatedWorkOrders;
+
+      expect(wo1.data.startDate).toBe('2026-02-10T08:00:00.000Z');
+      expect(wo1.data.endDate).toBe('2026-02-10T10:30:00.000Z');
+      expect(wo2.data.startDate).toBe('2026-02-10T10:30:00.000Z');
+      expect(result.changes.map(c => c.causedByEventIds)).toEqual([['evt-1'], ['evt-1']]);
+    });
+  });
+
+  describe('Time Fence', () => {
+    const now = '2026-02-10T10:00:00.000Z';
+    // One-hour order on Tuesday, times given as HH:MM
+    const oneHourOrder = (id: string, start: string, end: string, overrides: Partial<WorkOrder['data']> = {}): WorkOrder =>
+      createWorkOrder(id, {
+        workOrderNumber: id.toUpperCase(),
+        manufacturingOrderId: 'mo-1',
+        workCenterId: 'wc-1',
+        startDate: `2026-02-10T${start}:00.000Z`,
+        endDate: `2026-02-10T${end}:00.000Z`,
+        durationMinutes: 60,
+        isMaintenance: false,
+        dependsOnWorkOrderIds: [],
+        ...overrides
+      });
+    const fenceInput = (workOrders: WorkOrder[]): ReflowInput => ({
+      workOrders,
+      workCenters: [
+        createWorkCenter('wc-1', {
+          name: 'Work Center 1',
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ],
+      manufacturingOrders: []
+    });
+
+    it('should not place work before now', () => {
+      const result = service.reflow(fenceInput([oneHourOrder('wo-1', '08:00', '09:00')]), { now });
+
+      expect(result.updatedWorkOrders[0].data.startDate).toBe(now);
+      expect(result.changes[0].reason).toContain('Cannot start in the past (now is 2026-02-10T10:00:00.000Z)');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should let frozen orders keep their slot ahead of higher priority work', () => {
+      const input = fenceInput([
+        oneHourOrder('wo-a', '10:30', '11:30', { priority: 2 }),
+        oneHourOrder('wo-b', '11:00', '12:00', { priority: 1 })
+      ]);
+
+      const unfenced = service.reflow(input, { now });
+      expect(unfenced.updatedWorkOrders[0].data.startDate).toBe('2026-02-10T12:00:00.000Z');
+
+      const fenced = service.reflow(input, { now, frozenHorizonMinutes: 60 });
+      const [woA, woB] = fenced.updatedWorkOrders;
+      expect(woA.data.startDate).toBe('2026-02-10T10:30:00.000Z');
+      expect(woB.data.startDate).toBe('2026-02-10T11:30:00.000Z');
+      expect(fenced.warnings).toEqual([]);
+    });
+
+    it('should report frozen orders that are forced to move', () => {
+      const input = fenceInput([
+        oneHourOrder('wo-p', '09:30', '10:30'),
+        oneHourOrder('wo-a', '10:30', '11:30', { dependsOnWorkOrderIds: ['wo-p'] })
+      ]);
+
+      const result = service.reflow(input, { now, frozenHorizonMinutes: 120 });
+      expect(result.updatedWorkOrders[1].data.startDate).toBe('2026-02-10T11:00:00.000Z');
+      expect(result.warnings).toEqual([{
+        type: 'TIME_FENCE_VIOLATION',
+        message: 'Work order WO-A inside the frozen horizon had to move from 2026-02-10T10:30:00.000Z to 2026-02-10T11:00:00.000Z',
+        workOrderIds: ['wo-a']
+      }]);
+    });
+
+    it('should warn about pinned orders still scheduled in the past', () => {
+      const input = fenceInput([
+        oneHourOrder('wo-firm', '08:00', '09:00', { status: 'FIRMED' }),
+        oneHourOrder('wo-done', '09:00', '10:00', { status: 'COMPLETE' })
+      ]);
+
+      const result = service.reflow(input, { now });
+      expect(result.changes).toHaveLength(0);
+      expect(result.warnings.map(w => [w.type, w.workOrderIds])).toEqual([['SCHEDULED_IN_PAST', ['wo-firm']]]);
+    });
+  });
+
+  describe('Non-Preemptive Work', () => {
+    // A 4 hour heat treatment planned Tuesday 14:00, so it spills into Wednesday morning
+    const heatTreatInput = (): ReflowInput => ({
+      workOrders: [
+        createWorkOrder('wo-1', {
+          workOrderNumber: 'WO-1',
+          manufacturingOrderId: 'mo-1',
+          workCenterId: 'wc-1',
+          startDate: '2026-02-10T14:00:00.000Z',
+          endDate: '2026-02-11T09:00:00.000Z',
+          durationMinutes: 240,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          nonPreemptive: true
+        })
+      ],
+      workCenters: [
+        createWorkCenter('wc-1', {
+          name: 'Furnace',
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ],
+      manufacturingOrders: []
+    });
+
+    it('should move non-preemptive work into one unbroken block', () => {
+      const input = heatTreatInput();
+      const errors = new ConstraintValidator().validateAll(input.workOrders, input.workCenters);
+      expect(errors.map(e => e.message)).toEqual(['Work order WO-1 is split across a break in working time']);
+
+      const result = service.reflow(input);
+      expect(result.updatedWorkOrders[0].data.startDate).toBe('2026-02-11T08:00:00.000Z');
+      expect(result.updatedWorkOrders[0].data.endDate).toBe('2026-02-11T12:00:00.000Z');
+      expect(result.changes[0].reason).toContain('Needs 240 minutes of unbroken working time');
+    });
+
+    it('should take the flag from the work center unless the order overrides it', () => {
+      const input = heatTreatInput();
+      input.workCenters[0].data.nonPreemptive = true;
+      delete input.workOrders[0].data.nonPreemptive;
+      expect(service.reflow(input).updatedWorkOrders[0].data.startDate).toBe('2026-02-11T08:00:00.000Z');
+
+      input.workOrders[0].data.nonPreemptive = false;
+      expect(service.reflow(input).changes).toHaveLength(0);
+    });
+
+    it('should only split work into pieces of at least the minimum chunk', () => {
+      const input = heatTreatInput();
+      input.workOrders[0].data = {
+        ...input.workOrders[0].data,
+        nonPreemptive: undefined,
+        minChunkMinutes: 60,
+        startDate: '2026-02-10T14:30:00.000Z',
+        endDate: '2026-02-11T08:50:00.000Z',
+        durationMinutes: 200
+      };
+
+      const result = service.reflow(input);
+      expect(result.updatedWorkOrders[0].data.startDate).toBe('2026-02-10T14:40:00.000Z');
+      expect(result.updatedWorkOrders[0].data.endDate).toBe('2026-02-11T09:00:00.000Z');
+      expect(result.changes[0].reason).toContain('Cannot be split into pieces shorter than 60 minutes');
+    });
+
+    it('should reject unbroken work longer than any block of working time', () => {
+      const input = heatTreatInput();
+      input.workOrders[0].data.durationMinutes = 600;
+
+      expect(() => service.reflow(input)).toThrow(expect.objectContaining({
+        code: 'INVALID_SHIFT_CONFIGURATION',
+        message: 'Work order WO-1 needs 600 minutes of unbroken working time, but the longest block of working time on Furnace is 540 minutes',
+        docIds: ['wo-1', 'wc-1']
+      }));
+    });
+  });
+
+  describe('Diagnostic Mode', () => {
+    // WO-1 sits on a work center that does not exist, WO-2 waits for it, WO-3 is independent
+    const brokenOrder = (id: string, workCenterId: string, start: string, end: string, parents: string[] = []): WorkOrder =>
+      createWorkOrder(id, {
+        workOrderNumber: id.toUpperCase(),
+        manufacturingOrderId: 'mo-1',
+        workCenterId,
+        startDate: `2026-02-10T${start}:00.000Z`,
+        endDate: `2026-02-10T${end}:00.000Z`,
+        durationMinutes: 60,
+        isMaintenance: false,
+        dependsOnWorkOrderIds: parents
+      });
+    const brokenInput = (): ReflowInput => ({
+      workOrders: [
+        brokenOrder('wo-1', 'wc-x', '08:00', '09:00'),
+        brokenOrder('wo-2', 'wc-1', '10:00', '11:00', ['wo-1']),
+        brokenOrder('wo-3', 'wc-1', '12:00', '13:00')
+      ],
+      workCenters: [
+        createWorkCenter('wc-1', {
+          name: 'Work Center 1',
+          shifts: standardShifts,
+          maintenanceWindows: []
+        })
+      ],
+      manufacturingOrders: []
+    });
+
+    it('should report work orders it cannot place instead of throwing', () => {
+      expect(() => service.reflow(brokenInput()))
+        .toThrow('Work order WO-1 references non-existent work center: wc-x');
+
+      const result = service.reflow(brokenInput(), { diagnose: true });
+      expect(result.diagnostics).toEqual({
+        unscheduledWorkOrders: [
+          {
+            workOrderId: 'wo-1',
+            workOrderNumber: 'WO-1',
+            reason: 'Work order WO-1 references non-existent work center: wc-x'
+          },
+          { workOrderId: 'wo-2', workOrderNumber: 'WO-2', reason: 'Depends on unscheduled work order WO-1' }
+        ],
+        validationErrors: []
+      });
+      expect(result.updatedWorkOrders[2].data.startDate).toBe('2026-02-10T12:00:00.000Z');
+    });
+
+    it('should report orders whose requirements can never be met', () => {
+      const input = brokenInput();
+      input.workOrders[0].data.workCenterId = 'wc-1';
+      input.workOrders[2].data.requiredResourceIds = ['res-x'];
+
+      const result = service.reflow(input, { diagnose: true });
+      expect(result.diagnostics!.unscheduledWorkOrders.map(u => u.reason))
+        .toEqual(['Work order WO-3 requires non-existent resource: res-x']);
+    });
+
+    it('should return remaining validation errors with the partial schedule', () => {
+      const input = brokenInput();
+      input.workOrders[0].data.workCenterId = 'wc-1';
+      input.workOrders[2].data = {
+        ...input.workOrders[2].data,
+        startDate: '2026-02-10T08:30:00.000Z',
+        endDate: '2026-02-10T09:30:00.000Z'
+      };
+      input.workOrders.forEach(wo => { wo.data.status = 'FIRMED'; });
+
+      expect(() => service.reflow(input)).toThrow('Reflow produced invalid schedule');
+
+      const result = service.reflow(input, { diagnose: true });
+      expect(result.diagnostics!.unscheduledWorkOrders).toEqual([]);
+      expect(result.diagnostics!.validationErrors).toEqual([{
+        type: 'WORK_CENTER_CONFLICT',
+        message: 'Work center wc-1 has overlapping work orders: WO-1 and WO-3',
+        workOrderIds: ['wo-1', 'wo-3']
+      }]);
+    });
+
+    it('should report work orders depending on a missing work order', () => {
+      const input = brokenInput();
+      input.workOrders[0].data.workCenterId = 'wc-1';
+      input.workOrders[0].data.dependsOnWorkOrderIds = ['wo-x'];
+
+      expect(() => service.reflow(input)).toThrow(/non-existent work order: wo-x/);
+
+      const result = service.reflow(input, { diagnose: true });
+      expect(result.diagnostics!.unscheduledWorkOrders).toEqual([
+        {
+          workOrderId: 'wo-1',
+          workOrderNumber: 'WO-1',
+          reason: 'Work order WO-1 depends on non-existent work order: wo-x'
+        },
+        { workOrderId: 'wo-2', workOrderNumber: 'WO-2', reason: 'Depends on unscheduled work order WO-1' }
+      ]);
+      expect(result.diagnostics!.validationErrors).toEqual([]);
+    });
+
+    it('should report a dependency cycle and leave its work orders unscheduled', () => {
+      const input = brokenInput();
+      input.workOrders[0].data.workCenterId = 'wc-1';
+      input.workOrders[0].data.dependsOnWorkOrderIds = ['wo-2'];
+
+      expect(() => service.reflow(input)).toThrow(CircularDependencyError);
+
+      const result = service.reflow(input, { diagnose: true });
+      const { unscheduledWorkOrders, validationErrors } = result.diagnostics!;
+      expect(unscheduledWorkOrders.map(u => u.workOrderId).sort()).toEqual(['wo-1', 'wo-2']);
+      expect(validationErrors).toHaveLength(1);
+      expect(validationErrors[0].type).toBe('CIRCULAR_DEPENDENCY');
+      expect([...validationErrors[0].workOrderIds].sort()).toEqual(['wo-1', 'wo-2']);
+      expect(result.updatedWorkOrders[2].data.startDate).toBe('2026-02-10T12:00:00.000Z');
+    });
+
+    it('should report work orders on a work center with an unknown plant calendar', () => {
+      const input = brokenInput();
+      input.workOrders[0].data.workCenterId = 'wc-2';
+      input.workCenters.push(createWorkCenter('wc-2', {
+        name: 'Work Center 2',
+        shifts: standardShifts,
+        maintenanceWindows: [],
+        calendarId: 'cal-missing'
+      }));
+
+      expect(() => service.reflow(input)).toThrow(/non-existent plant calendar/);
+
+      const result = service.reflow(input, { diagnose: true });
+      expect(result.diagnostics!.unscheduledWorkOrders).toEqual([
+        {
+          workOrderId: 'wo-1',
+          workOrderNumber: 'WO-1',
+          reason: 'Work center Work Center 2 references non-existent plant calendar: cal-missing'
+        },
+        { workOrderId: 'wo-2', workOrderNumber: 'WO-2', reason: 'Depends on unscheduled work order WO-1' }
+      ]);
+      expect(result.diagnostics!.validationErrors).toEqual([]);
+    });
+  });
+
+  describe('Error Codes', () => {
+    const catchError = (run: () => unknown): ReflowError => {
+      try {
+        run();
+      } catch (error) {
+        return error as ReflowError;
+      }
+      throw new Error('Expected an error');
+    };
+
+    it('should throw typed errors naming the offending documents', () => {
+      const input: ReflowInput = {
+        workOrders: [
+          createWorkOrder('wo-1', {
+            workOrderNumber: 'WO-1',
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-x',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T09:00:00.000Z',
+            durationMinutes: 60,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          })
+        ],
+        workCenters: [],
+        manufacturingOrders: []
+      };
+
+      const error = catchError(() => service.reflow(input));
+      expect(error).toBeInstanceOf(UnknownWorkCenterError);
+      expect(error.code).toBe('UNKNOWN_WORK_CENTER');
+      expect(error.docIds).toEqual(['wo-1', 'wc-x']);
+
+      input.workOrders[0].data.status = 'FIRMED';
+      const pinnedError = catchError(() => service.reflow(input));
+      expect(pinnedError).toBeInstanceOf(UnknownWorkCenterError);
+      expect(pinnedError.docIds).toEqual(['wo-1', 'wc-x']);
+    });
+
+    it('should carry the validation errors of an invalid schedule', () => {
+      const input: ReflowInput = {
+        workOrders: ['wo-1', 'wo-2'].map(id =>
+          createWorkOrder(id, {
+            workOrderNumber: id.toUpperCase(),
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T09:00:00.000Z',
+            durationMinutes: 60,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: [],
+            status: 'FIRMED'
+          })
+        ),
+        workCenters: [
+          createWorkCenter('wc-1', {
+            name: 'Work Center 1',
+            shifts: standardShifts,
+            maintenanceWindows: []
+          })
+        ],
+        manufacturingOrders: []
+      };
+
+      const error = catchError(() => service.reflow(input)) as InvalidScheduleError;
+      expect(error).toBeInstanceOf(InvalidScheduleError);
+      expect(error.code).toBe('INVALID_SCHEDULE');
+      expect(error.docIds).toEqual(['wo-1', 'wo-2']);
+      expect(error.validationErrors.map(e => e.type)).toEqual(['WORK_CENTER_CONFLICT']);
+    });
+  });
+
+  describe('Incremental Reflow', () => {
+    // Three work centers in a flow line: each order runs an hour and feeds the next station
+    const flowLineInput = (): ReflowInput => {
+      const workOrders: WorkOrder[] = [];
+      for (let station = 1; station <= 3; station++) {
+        for (let k = 0; k < 4; k++) {
+          const startHour = 7 + station + k;
+          workOrders.push(createWorkOrder(`wo-${station}-${k}`, {
+            workOrderNumber: `WO-${station}-${k}`,
+            manufacturingOrderId: `mo-${k}`,
+            workCenterId: `wc-${station}`,
+            startDate: `2026-02-10T${String(startHour).padStart(2, '0')}:00:00.000Z`,
+            endDate: `2026-02-10T${String(startHour + 1).padStart(2, '0')}:00:00.000Z`,
+            durationMinutes: 60,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: station > 1 ? [`wo-${station - 1}-${k}`] : []
+          }));
+        }
+      }
+
+      // WO-1-1 slipped by two hours
+      const slipped = workOrders.find(wo => wo.docId === 'wo-1-1')!;
+      slipped.data.durationMinutes = 180;
+      slipped.data.endDate = '2026-02-10T12:00:00.000Z';
+
+      return {
+        workOrders,
+        workCenters: [1, 2, 3].map(station =>
+          createWorkCenter(`wc-${station}`, {
+            name: `Station ${station}`,
+            shifts: standardShifts,
+            maintenanceWindows: []
+          })
+        ),
+        manufacturingOrders: []
+      };
+    };
+
+    it('should match a full reflow', () => {
+      const full = service.reflow(flowLineInput());
+      const incremental = service.reflow(flowLineInput(), { changedWorkOrderIds: ['wo-1-1'] });
+
+      expect(incremental.updatedWorkOrders).toEqual(full.updatedWorkOrders);
+      expect(incremental.changes).toEqual(full.changes);
+      expect(incremental.changes.length).toBeGreaterThan(0);
+    });
+
+    it('should leave work orders outside the affected subgraph untouched', () => {
+      const result = service.reflow(flowLineInput(), { changedWorkOrderIds: ['wo-1-1'] });
+      const changedIds = result.changes.map(c => c.workOrderId);
+
+      ['wo-1-0', 'wo-2-0', 'wo-3-0'].forEach(id => expect(changedIds).not.toContain(id));
+      expect(changedIds).toEqual(expect.arrayContaining(['wo-1-2', 'wo-2-1', 'wo-3-1']));
+    });
+
+    it('should reject unknown changed work orders', () => {
+      expect(() => service.reflow(flowLineInput(), { changedWorkOrderIds: ['wo-x'] }))
+        .toThrow('Changed work order not found: wo-x');
+    });
+
+    it('should reschedule an earlier order still running when the changed order starts', () => {
+      // WO-C was moved onto 09:00, while WO-Y runs 08:00-10:00 on the same work center
+      const overlapInput = (): ReflowInput => ({
+        workOrders: [
+          createWorkOrder('wo-c', {
+            workOrderNumber: 'WO-C',
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-10T09:00:00.000Z',
+            endDate: '2026-02-10T10:00:00.000Z',
+            durationMinutes: 60,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          }),
+          createWorkOrder('wo-y', {
+            workOrderNumber: 'WO-Y',
+            manufacturingOrderId: 'mo-2',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T10:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          })
+        ],
+        workCenters: [createWorkCenter('wc-1', { name: 'WC1', shifts: standardShifts, maintenanceWindows: [] })],
+        manufacturingOrders: []
+      });
+
+      const full = service.reflow(overlapInput());
+      const incremental = service.reflow(overlapInput(), { changedWorkOrderIds: ['wo-c'] });
+
+      expect(incremental.updatedWorkOrders).toEqual(full.updatedWorkOrders);
+      expect(incremental.updatedWorkOrders[1].data.startDate).toBe('2026-02-10T10:00:00.000Z');
+    });
+
+    describe('across work centers', () => {
+      const order = (
+        id: string,
+        workCenterId: string,
+        startHour: number,
+        endHour: number,
+        overrides: Partial<WorkOrderData> = {}
+      ): WorkOrder =>
+        createWorkOrder(id, {
+          workOrderNumber: id.toUpperCase(),
+          manufacturingOrderId: 'mo-1',
+          workCenterId,
+          startDate: `2026-02-10T${String(startHour).padStart(2, '0')}:00:00.000Z`,
+          endDate: `2026-02-10T${String(endHour).padStart(2, '0')}:00:00.000Z`,
+          durationMinutes: (endHour - startHour) * 60,
+          isMaintenance: false,
+          dependsOnWorkOrderIds: [],
+          ...overrides
+        });
+
+      const twoLineInput = (workOrders: WorkOrder[], extra: Partial<ReflowInput> = {}): ReflowInput => ({
+        workOrders,
+        workCenters: ['wc-a', 'wc-b'].map(id =>
+          createWorkCenter(id, { name: id, shifts: standardShifts, maintenanceWindows: [] })
+        ),
+        manufacturingOrders: [],
+        ...extra
+      });
+
+      const expectFullReflowResult = (input: () => ReflowInput, changedWorkOrderIds: string[]): void => {
+        const full = service.reflow(input());
+        const incremental = service.reflow(input(), { changedWorkOrderIds });
+
+        expect(full.changes.length).toBeGreaterThan(0);
+        expect(incremental.updatedWorkOrders).toEqual(full.updatedWorkOrders);
+        expect(incremental.changes).toEqual(full.changes);
+      };
+
+      it('should follow a resource shared with another work center', () => {
+        expectFullReflowResult(() => twoLineInput(
+          [
+            order('a1', 'wc-a', 8, 11, { requiredResourceIds: ['mold-t'] }),
+            order('b1', 'wc-b', 10, 12, { requiredResourceIds: ['mold-t'] })
+          ],
+          { resources: [createResource('mold-t', { name: 'Mold T' })] }
+        ), ['a1']);
+      });
+
+      it('should follow an operator pool shared with another work center', () => {
+        expectFullReflowResult(() => twoLineInput(
+          [
+            order('a1', 'wc-a', 8, 11, { laborRequirements: [{ skill: 'press', operators: 1 }] }),
+            order('b1', 'wc-b', 10, 12, { laborRequirements: [{ skill: 'press', operators: 1 }] })
+          ],
+          {
+            operatorPools: [
+              createOperatorPool('pool-press', {
+                name: 'Press operators',
+                headcount: 1,
+                skills: ['press'],
+                shifts: standardShifts
+              })
+            ]
+          }
+        ), ['a1']);
+      });
+
+      it('should follow an alternate work center', () => {
+        // A1 is squeezed out of wc-a and finishes first on its alternate, ahead of B1
+        expectFullReflowResult(() => twoLineInput([
+          order('x1', 'wc-a', 8, 12, { priority: 1 }),
+          order('a1', 'wc-a', 8, 10, { priority: 2, alternateWorkCenters: [{ workCenterId: 'wc-b' }] }),
+          order('b1', 'wc-b', 9, 11, { priority: 3 })
+        ]), ['a1']);
+      });
+    });
+  });
+
   describe('Metrics', () => {
     it('should calculate optimization metrics', () => {
       const input: ReflowInput = {
@@ -332,5 +2146,76 @@ describe('ReflowService', () => {
       expect(result.metrics?.totalDelayMinutes).toBeGreaterThanOrEqual(0);
       expect(result.metrics?.workOrdersAffected).toBe(result.changes.length);
     });
+
+    it('should report manufacturing orders projected to finish after their due date', () => {
+      const input: ReflowInput = {
+        workOrders: [
+          createWorkOrder('wo-1', {
+            workOrderNumber: 'WO-1',
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-10T08:00:00.000Z',
+            endDate: '2026-02-10T12:00:00.000Z',
+            durationMinutes: 240,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          }),
+          createWorkOrder('wo-2', {
+            workOrderNumber: 'WO-2',
+            manufacturingOrderId: 'mo-1',
+            workCenterId: 'wc-2',
+            startDate: '2026-02-10T10:00:00.000Z', // Starts before parent finishes
+            endDate: '2026-02-10T12:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: ['wo-1']
+          }),
+          createWorkOrder('wo-3', {
+            workOrderNumber: 'WO-3',
+            manufacturingOrderId: 'mo-2',
+            workCenterId: 'wc-1',
+            startDate: '2026-02-11T08:00:00.000Z',
+            endDate: '2026-02-11T10:00:00.000Z',
+            durationMinutes: 120,
+            isMaintenance: false,
+            dependsOnWorkOrderIds: []
+          })
+        ],
+        workCenters: [
+          createWorkCenter('wc-1', { name: 'WC1', shifts: standardShifts, maintenanceWindows: [] }),
+          createWorkCenter('wc-2', { name: 'WC2', shifts: standardShifts, maintenanceWindows: [] })
+        ],
+        manufacturingOrders: [
+          createManufacturingOrder('mo-1', {
+            manufacturingOrderNumber: 'MO-1',
+            itemId: 'ITEM-1',
+            quantity: 100,
+            dueDate: '2026-02-10T13:00:00.000Z'
+          }),
+          createManufacturingOrder('mo-2', {
+            manufacturingOrderNumber: 'MO-2',
+            itemId: 'ITEM-2',
+            quantity: 50,
+            dueDate: '2026-02-11T17:00:00.000Z'
+          })
+        ]
+      };
+
+      const result = service.reflow(input);
+
+      const lateness = new Map(result.manufacturingOrderLateness.map(mo => [mo.manufacturingOrderId, mo]));
+
+      // MO-1 completes when WO-2 finishes at 14:00, one hour past due
+      expect(lateness.get('mo-1')!.projectedCompletionDate).toBe('2026-02-10T14:00:00.000Z');
+      expect(lateness.get('mo-1')!.latenessMinutes).toBe(60);
+      expect(lateness.get('mo-1')!.isLate).toBe(true);
+
+      expect(lateness.get('mo-2')!.isLate).toBe(false);
+      expect(lateness.get('mo-2')!.latenessMinutes).toBe(-420);
+
+      expect(result.metrics?.lateManufacturingOrderIds).toEqual(['mo-1']);
+      expect(result.metrics?.totalLatenessMinutes).toBe(60);
+      expect(result.explanation).toContain('MO-1');
+    });
   });
 });
@@ -0,0 +1,122 @@
+/**
+ * Tests for the schedule index (docId lookup and per-work-center timelines)
+ */
+
+import { ScheduleIndex } from '../src/utils/schedule-index';
+import { WorkOrder } from '../src/types/common-types';
+import { createWorkOrder } from '../src/models/work-order';
+
+describe('ScheduleIndex', () => {
+  const workOrder = (id: string, workCenterId: string, startDate: string, endDate: string): WorkOrder =>
+    createWorkOrder(id, {
+      workOrderNumber: id.toUpperCase(),
+      manufacturingOrderId: 'mo-1',
+      workCenterId,
+      startDate,
+      endDate,
+      durationMinutes: 60,
+      isMaintenance: false,
+      dependsOnWorkOrderIds: []
+    });
+
+  const workOrders = [
+    workOrder('wo-long', 'wc-1', '2026-02-09T08:00:00.000Z', '2026-02-10T12:00:00.000Z'),
+    workOrder('wo-1', 'wc-1', '2026-02-10T13:00:00.000Z', '2026-02-10T14:00:00.000Z'),
+    workOrder('wo-2', 'wc-1', '2026-02-10T15:00:00.000Z', '2026-02-10T16:00:00.000Z'),
+    workOrder('wo-3', 'wc-2', '2026-02-10T13:00:00.000Z', '2026-02-10T14:00:00.000Z')
+  ];
+
+  it('should look up work orders by docId', () => {
+    const index = new ScheduleIndex(workOrders);
+    expect(index.get('wo-2')?.data.workOrderNumber).toBe('WO-2');
+    expect(index.get('wo-x')).toBeUndefined();
+  });
+
+  it('should only report placed work orders on the same work center', () => {
+    const index = new ScheduleIndex(workOrders);
+    expect(index.findOverlapping('wc-1', '2026-02-10T13:30:00.000Z', '2026-02-10T15:30:00.000Z')).toEqual([]);
+
+    workOrders.forEach(wo => index.place(wo));
+    const overlapping = index.findOverlapping('wc-1', '2026-02-10T13:30:00.000Z', '2026-02-10T15:30:00.000Z');
+    expect(overlapping.map(wo => wo.docId)).toEqual(['wo-1', 'wo-2']);
+  });
+
+  it('should find long work orders that started well before the query', () => {
+    const index = ScheduleIndex.placeAll(workOrders);
+
+    const overlapping = index.findOverlapping('wc-1', '2026-02-10T11:00:00.000Z', '2026-02-10T11:30:00.000Z');
+    expect(overlapping.map(wo => wo.docId)).toEqual(['wo-long']);
+
+    // Touching intervals do not overlap, and the order itself can be excluded
+    expect(index.findOverlapping('wc-1', '2026-02-10T14:00:00.000Z', '2026-02-10T15:00:00.000Z')).toEqual([]);
+    expect(index.findOverlapping('wc-1', '2026-02-10T13:00:00.000Z', '2026-02-10T14:00:00.000Z', 'wo-1')).toEqual([]);
+  });
+
+  it('should find the work order that ends last before a time', () => {
+    const index = ScheduleIndex.placeAll(workOrders);
+
+    expect(index.findPrevious('wc-1', '2026-02-10T15:00:00.000Z')?.docId).toBe('wo-1');
+    expect(index.findPrevious('wc-1', '2026-02-10T13:00:00.000Z')?.docId).toBe('wo-long');
+    expect(index.findPrevious('wc-1', '2026-02-10T15:00:00.000Z', wo => wo.docId !== 'wo-1')?.docId).toBe('wo-long');
+    expect(index.findPrevious('wc-2', '2026-02-10T13:00:00.000Z')).toBeUndefined();
+  });
+
+  it('should report each overlapping pair once', () => {
+    const index = ScheduleIndex.placeAll([
+      ...workOrders,
+      workOrder('wo-4', 'wc-1', '2026-02-10T13:30:00.000Z', '2026-02-10T15:30:00.000Z')
+    ]);
+
+    const conflicts = index.findConflicts().map(c => c.workOrders.map(wo => wo.docId));
+    expect(conflicts).toEqual([['wo-1', 'wo-4'], ['wo-4', 'wo-2']]);
+  });
+
+  it('should measure the peak load within a range', () => {
+    const index = ScheduleIndex.placeAll([
+      ...workOrders,
+      workOrder('wo-4', 'wc-1', '2026-02-10T13:30:00.000Z', '2026-02-10T15:30:00.000Z')
+    ]);
+
+    expect(index.findPeakLoad('wc-1', '2026-02-10T13:00:00.000Z', '2026-02-10T16:00:00.000Z')).toBe(2);
+    // WO-1 has ended by 14:00, but WO-4 and WO-2 overlap from 15:00
+    expect(index.findPeakLoad('wc-1', '2026-02-10T14:00:00.000Z', '2026-02-10T16:00:00.000Z')).toBe(2);
+    expect(index.findPeakLoad('wc-1', '2026-02-10T13:00:00.000Z', '2026-02-10T16:00:00.000Z', 'wo-4')).toBe(1);
+    expect(index.findPeakLoad('wc-2', '2026-02-10T08:00:00.000Z', '2026-02-10T09:00:00.000Z')).toBe(0);
+  });
+
+  it('should find where a work center frees up after back-to-back orders', () => {
+    const index = ScheduleIndex.placeAll([
+      ...workOrders,
+      workOrder('wo-4', 'wc-1', '2026-02-10T14:00:00.000Z', '2026-02-10T15:00:00.000Z')
+    ]);
+
+    // WO-1, WO-4 and WO-2 run back to back from 13:00 to 16:00
+    expect(index.findNextFree('wc-1', '2026-02-10T13:30:00.000Z')).toBe('2026-02-10T16:00:00.000Z');
+    expect(index.findNextFree('wc-1', '2026-02-10T12:30:00.000Z')).toBe('2026-02-10T12:30:00.000Z');
+    expect(index.findNextFree('wc-1', '2026-02-10T13:30:00.000Z', 2)).toBe('2026-02-10T13:30:00.000Z');
+    expect(index.findNextFree('wc-2', '2026-02-10T13:30:00.000Z')).toBe('2026-02-10T14:00:00.000Z');
+  });
+
+  it('should only report conflicts beyond a work center capacity', () => {
+    const index = ScheduleIndex.placeAll([
+      ...workOrders,
+      workOrder('wo-4', 'wc-1', '2026-02-10T13:30:00.000Z', '2026-02-10T15:30:00.000Z'),
+      workOrder('wo-5', 'wc-1', '2026-02-10T13:45:00.000Z', '2026-02-10T14:15:00.000Z')
+    ]);
+
+    const conflicts = index.findConflicts(() => 2).map(c => c.workOrders.map(wo => wo.docId));
+    expect(conflicts).toEqual([['wo-1', 'wo-4', 'wo-5']]);
+  });
+
+  it('should track resource holders across work centers', () => {
+    const withTool = (wo: WorkOrder): WorkOrder => ({ ...wo, data: { ...wo.data, requiredResourceIds: ['res-1'] } });
+    const index = ScheduleIndex.placeAll([withTool(workOrders[1]), withTool(workOrders[3]), workOrders[2]]);
+
+    const holders = index.findResourceOverlapping('res-1', '2026-02-10T13:00:00.000Z', '2026-02-10T16:00:00.000Z');
+    expect(holders.map(wo => wo.docId)).toEqual(['wo-1', 'wo-3']);
+    expect(index.findResourcePeakLoad('res-1', '2026-02-10T13:00:00.000Z', '2026-02-10T16:00:00.000Z')).toBe(2);
+
+    const conflicts = index.findResourceConflicts().map(c => c.workOrders.map(wo => wo.docId));
+    expect(conflicts).toEqual([['wo-1', 'wo-3']]);
+  });
+});